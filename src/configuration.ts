@@ -1,11 +1,15 @@
 import { getBooleanInput, getInput, isDebug } from '@actions/core';
 import { getOctokit } from '@actions/github';
-import ProxyAgent from 'proxy-agent';
 import { readFileSync } from 'fs';
+import { resolve } from 'canonical-path';
 import { getTicsWebBaseUrlFromUrl } from './tics/api_helper';
+import { createViewerAgent } from './helper/tls';
 
 const payload = process.env.GITHUB_EVENT_PATH ? JSON.parse(readFileSync(process.env.GITHUB_EVENT_PATH, 'utf8')) : '';
 const pullRequestNumber = payload.pull_request ? payload.pull_request.number : '';
+const baseSha = payload.pull_request ? payload.pull_request.base.sha : '';
+const headSha = payload.pull_request ? payload.pull_request.head.sha : '';
+const changedFilesCount = payload.pull_request ? payload.pull_request.changed_files : 0;
 
 export const githubConfig = {
   repo: process.env.GITHUB_REPOSITORY ? process.env.GITHUB_REPOSITORY : '',
@@ -13,11 +17,17 @@ export const githubConfig = {
   reponame: process.env.GITHUB_REPOSITORY ? process.env.GITHUB_REPOSITORY.split('/')[1] : '',
   branchname: process.env.GITHUB_HEAD_REF ? process.env.GITHUB_HEAD_REF : '',
   basebranchname: process.env.GITHUB_BASE_REF ? process.env.GITHUB_BASE_REF : '',
-  branchdir: process.env.GITHUB_WORKSPACE ? process.env.GITHUB_WORKSPACE : '',
+  // the branchDir input is relative to the workspace
+  branchdir: resolve(process.env.GITHUB_WORKSPACE ? process.env.GITHUB_WORKSPACE : '', getInput('branchDir')),
+  refname: process.env.GITHUB_REF_NAME ? process.env.GITHUB_REF_NAME : '',
+  defaultBranch: payload.repository ? payload.repository.default_branch : '',
   eventName: process.env.GITHUB_EVENT_NAME ? process.env.GITHUB_EVENT_NAME : '',
   runnerOS: process.env.RUNNER_OS ? process.env.RUNNER_OS : '',
   pullRequestNumber: process.env.PULL_REQUEST_NUMBER ? process.env.PULL_REQUEST_NUMBER : pullRequestNumber,
-  debugger: isDebug()
+  baseSha: baseSha,
+  commitSha: headSha ? headSha : process.env.GITHUB_SHA ? process.env.GITHUB_SHA : '',
+  changedFilesCount: changedFilesCount,
+  debugger: isDebug() || getInput('logLevel') === 'debug'
 };
 
 export const ticsConfig = {
@@ -27,24 +37,41 @@ export const ticsConfig = {
   additionalFlags: getInput('additionalFlags'),
   branchDir: getInput('branchDir'),
   branchName: getInput('branchName'),
+  caBundle: getInput('caBundle'),
   calc: getInput('calc'),
   nocalc: getInput('nocalc'),
   recalc: getInput('recalc'),
   norecalc: getInput('norecalc'),
+  changedFilesProvider: getInput('changedFilesProvider'),
+  checkRun: getBooleanInput('checkRun'),
   clientData: getInput('clientData'),
   codetype: getInput('codetype'),
   hostnameVerification: getInput('hostnameVerification'),
   trustStrategy: getInput('trustStrategy'),
   excludeMovedFiles: getBooleanInput('excludeMovedFiles'),
+  exportSarif: getBooleanInput('exportSarif'),
+  hintsFile: getInput('hintsFile'),
   installTics: getBooleanInput('installTics'),
+  mode: getInput('mode'),
+  policy: getInput('policy'),
+  logLevel: getInput('logLevel'),
   postAnnotations: getBooleanInput('postAnnotations'),
   ticsAuthToken: getInput('ticsAuthToken'),
   tmpDir: getInput('tmpDir'),
   viewerUrl: getInput('viewerUrl'),
-  pullRequestApproval: getBooleanInput('pullRequestApproval')
+  pullRequestApproval: getBooleanInput('pullRequestApproval'),
+  retryCount: Number(getInput('retryCount')),
+  retryDelay: Number(getInput('retryDelay')),
+  analysisTimeout: Number(getInput('analysisTimeout')),
+  stickySummary: getBooleanInput('stickySummary'),
+  suppressionsFile: getInput('suppressionsFile')
 };
 
 export const octokit = getOctokit(ticsConfig.githubToken);
-export const requestInit = { agent: new ProxyAgent(), headers: {} };
+// the TLS options only apply to requests to the viewer, not to the GitHub API
+// the agent is set before the first request, as reading the caBundle can fail
+export const requestInit: { agent?: ReturnType<typeof createViewerAgent>; headers: {} } = {
+  headers: {}
+};
 export const baseUrl = getTicsWebBaseUrlFromUrl(ticsConfig.ticsConfiguration);
 export const viewerUrl = ticsConfig.viewerUrl ? ticsConfig.viewerUrl.replace(/\/+$/, '') : baseUrl;
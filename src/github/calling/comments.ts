@@ -0,0 +1,20 @@
+import Logger from '../../helper/logger';
+import { githubConfig, octokit } from '../../configuration';
+
+/**
+ * Gets a list of all comments posted on the pull request.
+ * @returns List of comments posted on the pull request.
+ */
+export async function getPostedComments() {
+  try {
+    Logger.Instance.info('Retrieving posted comments.');
+    const params = {
+      owner: githubConfig.owner,
+      repo: githubConfig.reponame,
+      issue_number: githubConfig.pullRequestNumber
+    };
+    return await octokit.paginate(octokit.rest.issues.listComments, params);
+  } catch (error: any) {
+    Logger.Instance.error(`Could not retrieve the comments: ${error.message}`);
+  }
+}
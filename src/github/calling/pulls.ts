@@ -1,14 +1,24 @@
 import { writeFileSync } from 'fs';
-import { normalize, resolve } from 'canonical-path';
+import { join, normalize, resolve } from 'canonical-path';
 import Logger from '../../helper/logger';
 import { githubConfig, octokit, ticsConfig } from '../../configuration';
+import { findGitRoot, getBranchPrefix, getChangedFilesFromGit } from '../../helper/git';
 
 /**
- * Sends a request to retrieve the changed files for a given pull request to the GitHub API.
+ * Retrieves the changed files for a given pull request, either from the GitHub API or from the git checkout.
  * @returns List of changed files within the GitHub Pull request.
  */
 export async function getChangedFiles() {
   Logger.Instance.header('Retrieving changed files.');
+
+  if (ticsConfig.changedFilesProvider === 'git') {
+    try {
+      return await getChangedFilesFromCheckout();
+    } catch (error: any) {
+      Logger.Instance.exit(`Could not retrieve the changed files: ${error}`);
+    }
+  }
+
   try {
     const params = {
       owner: githubConfig.owner,
@@ -16,22 +26,18 @@ export async function getChangedFiles() {
       pull_number: githubConfig.pullRequestNumber
     };
     const response = await octokit.paginate(octokit.rest.pulls.listFiles, params, response => {
-      return response.data.map(data => {
-        // If a file is moved or renamed the status is 'renamed'.
-        if (data.status === 'renamed') {
-          if (ticsConfig.excludeMovedFiles) {
-            return;
-          }
-          if (data.changes === 0) {
-            // If nothing has changed in the file skip it.
-            return;
-          }
-        }
-        data.filename = normalize(data.filename);
-        Logger.Instance.debug(data.filename);
-        return data;
-      });
+      return response.data.map(data => filterChangedFile(data));
     });
+
+    if (isTruncated(response)) {
+      Logger.Instance.warning('The changed files returned by the GitHub API are incomplete, retrieving them from the git checkout instead.');
+      try {
+        return await getChangedFilesFromCheckout();
+      } catch (error: any) {
+        Logger.Instance.warning(`Could not retrieve the changed files from git, continuing with the GitHub API result: ${error.message}`);
+      }
+    }
+
     Logger.Instance.info('Retrieved changed files.');
     return response.filter(x => x !== undefined);
   } catch (error: any) {
@@ -39,17 +45,70 @@ export async function getChangedFiles() {
   }
 }
 
+/**
+ * Retrieves the changed files for a given pull request from the git checkout.
+ * @returns List of changed files within the GitHub Pull request.
+ */
+async function getChangedFilesFromCheckout() {
+  const changedFiles = (await getChangedFilesFromGit()).map(data => filterChangedFile(data));
+  Logger.Instance.info('Retrieved changed files.');
+  return changedFiles.filter(x => x !== undefined);
+}
+
+/**
+ * Checks if the changed files returned by the GitHub API are truncated.
+ * The API returns at most 3000 files and leaves out the patch of files with large diffs.
+ * @param changedFiles List of changed files returned by the GitHub API.
+ * @returns Boolean value if the result is truncated.
+ */
+function isTruncated(changedFiles: ({ changes: number; patch?: string } | undefined)[]) {
+  if (changedFiles.length >= 3000 || changedFiles.length < githubConfig.changedFilesCount) {
+    return true;
+  }
+  return changedFiles.some(file => file && file.changes > 0 && file.patch === undefined);
+}
+
+/**
+ * Filters out a moved or renamed file that should not be analyzed and normalizes the filename.
+ * @param data Changed file.
+ * @returns The changed file or undefined if it should not be analyzed.
+ */
+function filterChangedFile<T extends { filename: string; status: string; changes: number }>(data: T): T | undefined {
+  // If a file is moved or renamed the status is 'renamed'.
+  if (data.status === 'renamed') {
+    if (ticsConfig.excludeMovedFiles) {
+      return;
+    }
+    if (data.changes === 0) {
+      // If nothing has changed in the file skip it.
+      return;
+    }
+  }
+  data.filename = normalize(data.filename);
+  Logger.Instance.debug(data.filename);
+  return data;
+}
+
 /**
  * Creates a file containing all the changed files based on the given changedFiles.
+ * The filenames are relative to the root of the checkout, so they are written as absolute paths
+ * for TiCS to find them regardless of the directory it runs in. Files outside of the branchDir are left out.
  * @param changedFiles List of changed files.
  * @returns Location of the written file.
  */
 export function changedFilesToFile(changedFiles: any[]): string {
   Logger.Instance.header('Writing changedFiles to file');
 
+  const gitRoot = findGitRoot();
+  const root = gitRoot !== undefined ? gitRoot : githubConfig.branchdir;
+  const branchPrefix = getBranchPrefix();
+
   let contents = '';
   changedFiles.forEach(item => {
-    contents += item.filename + '\n';
+    if (branchPrefix && !item.filename.startsWith(`${branchPrefix}/`)) {
+      return Logger.Instance.debug(`Skipping ${item.filename}, as it is outside of the branchDir.`);
+    }
+    contents += join(root, item.filename) + '\n';
   });
 
   const fileListPath = resolve('changedFiles.txt');
@@ -1,14 +1,20 @@
 import Logger from '../../helper/logger';
 import { githubConfig, octokit } from '../../configuration';
+import { ReviewComment } from '../../helper/interfaces';
+import { getFingerprint } from '../../helper/fingerprint';
 
 /**
- * Deletes the review comments of previous runs.
+ * Deletes the review comments of previous runs that no longer apply, which are the comments of annotations that are
+ * fixed. Comments that still apply are kept, so the discussion in their threads is not lost.
  * @param postedReviewComments Previously posted review comments.
+ * @param reviewComments Review comments of the annotations of this run.
  */
-export async function deletePreviousReviewComments(postedReviewComments: any[]) {
+export async function deletePreviousReviewComments(postedReviewComments: any[], reviewComments: ReviewComment[] = []) {
   Logger.Instance.header('Deleting review comments of previous runs.');
+  const fingerprints = getFingerprints(reviewComments);
+
   postedReviewComments.map(async reviewComment => {
-    if (reviewComment.body.substring(0, 17) === ':warning: **TiCS:') {
+    if (isTicsReviewComment(reviewComment) && !stillApplies(reviewComment, fingerprints)) {
       try {
         const params = {
           owner: githubConfig.owner,
@@ -23,3 +29,52 @@ export async function deletePreviousReviewComments(postedReviewComments: any[])
   });
   Logger.Instance.info('Deleted review comments of previous runs.');
 }
+
+/**
+ * Gets the review comments that are not posted yet by a previous run.
+ * @param reviewComments Review comments of the annotations of this run.
+ * @param postedReviewComments Previously posted review comments.
+ * @returns The review comments to post.
+ */
+export function getNewReviewComments(reviewComments: ReviewComment[], postedReviewComments: any[]): ReviewComment[] {
+  const fingerprints = getFingerprints(reviewComments);
+  const postedFingerprints = postedReviewComments
+    .filter(reviewComment => isTicsReviewComment(reviewComment) && stillApplies(reviewComment, fingerprints))
+    .map(reviewComment => getFingerprint(reviewComment.body));
+
+  const newReviewComments = reviewComments.filter(reviewComment => !postedFingerprints.includes(getFingerprint(reviewComment.body)));
+  Logger.Instance.info(`Keeping ${reviewComments.length - newReviewComments.length} review comment(s) of previous runs that still apply.`);
+  return newReviewComments;
+}
+
+/**
+ * Checks if a review comment was posted by TiCS.
+ * @param reviewComment Previously posted review comment.
+ * @returns true if the comment was posted by TiCS.
+ */
+function isTicsReviewComment(reviewComment: any): boolean {
+  return reviewComment.body.substring(0, 17) === ':warning: **TiCS:';
+}
+
+/**
+ * Checks if a previously posted review comment still applies, which is the case if the annotation it was posted for
+ * is found again and the comment is not outdated (GitHub could not keep it on the line it was posted on).
+ * @param reviewComment Previously posted review comment.
+ * @param fingerprints Fingerprints of the annotations of this run.
+ * @returns true if the comment still applies.
+ */
+function stillApplies(reviewComment: any, fingerprints: string[]): boolean {
+  const fingerprint = getFingerprint(reviewComment.body);
+  return fingerprint !== undefined && fingerprints.includes(fingerprint) && reviewComment.line !== null;
+}
+
+/**
+ * Gets the fingerprints of review comments.
+ * @param reviewComments Review comments of the annotations of this run.
+ * @returns The fingerprints.
+ */
+function getFingerprints(reviewComments: ReviewComment[]): string[] {
+  return reviewComments
+    .map(reviewComment => getFingerprint(reviewComment.body))
+    .filter((fingerprint): fingerprint is string => fingerprint !== undefined);
+}
@@ -0,0 +1,118 @@
+import Logger from '../../helper/logger';
+import { getBranchPrefix } from '../../helper/git';
+import { getAnnotationPath, getAnnotationSeverity } from '../../helper/annotation';
+import { Analysis, Annotation, QualityGate } from '../../helper/interfaces';
+import { githubConfig, octokit } from '../../configuration';
+import { createFilesSummary, createLinkSummary, createQualityGateSummary, createSuppressedSummary, formatLines } from '../../helper/summary';
+import { applySuppressions } from '../../helper/suppressions';
+
+// GitHub accepts at most 50 annotations per request on a check run
+const annotationBatchSize = 50;
+
+/**
+ * Create a check run named TICS on the head commit of the pull request from the analysis given.
+ * @param analysis Analysis object returned from TiCS analysis.
+ * @param filesAnalyzed List of all files analyzed by TiCS.
+ * @param qualityGate Quality gate returned by TiCS.
+ * @param annotations Annotations retrieved from the viewer to attach to the check run.
+ */
+export async function postCheckRun(analysis: Analysis, filesAnalyzed: string[], qualityGate: QualityGate, annotations: Annotation[] | undefined) {
+  const branchPrefix = getBranchPrefix();
+  // suppressions apply to the annotations of a check run like they do to review comments, matching on the path in the repository
+  const { annotations: unsuppressed, suppressed } = applySuppressions(
+    annotations ? annotations.map(annotation => ({ ...annotation, path: getAnnotationPath(annotation.fullPath, branchPrefix) })) : []
+  );
+
+  let text = analysis.explorerUrl ? createLinkSummary(analysis.explorerUrl) : '';
+  text += suppressed.length > 0 ? createSuppressedSummary(suppressed) : '';
+  text += createFilesSummary(filesAnalyzed);
+
+  const output = {
+    title: qualityGate.message,
+    summary: createQualityGateSummary(qualityGate),
+    text: text
+  };
+  const checkAnnotations = unsuppressed.map(annotation => createCheckAnnotation(annotation));
+
+  try {
+    Logger.Instance.header('Creating a check run for this pull request.');
+    const response = await octokit.rest.checks.create({
+      owner: githubConfig.owner,
+      repo: githubConfig.reponame,
+      name: 'TICS',
+      head_sha: githubConfig.commitSha,
+      details_url: analysis.explorerUrl,
+      status: 'completed',
+      conclusion: qualityGate.passed ? 'success' : 'failure',
+      output: { ...output, annotations: checkAnnotations.slice(0, annotationBatchSize) }
+    });
+
+    for (let i = annotationBatchSize; i < checkAnnotations.length; i += annotationBatchSize) {
+      await octokit.rest.checks.update({
+        owner: githubConfig.owner,
+        repo: githubConfig.reponame,
+        check_run_id: response.data.id,
+        output: { ...output, annotations: checkAnnotations.slice(i, i + annotationBatchSize) }
+      });
+    }
+    Logger.Instance.info(`Created check run with ${checkAnnotations.length} annotation(s).`);
+  } catch (error: any) {
+    Logger.Instance.error(`Creating the check run failed: ${error.message}`);
+  }
+}
+
+/**
+ * Create a check run named TICS on the head commit of the pull request with a message.
+ * @param message Message to display in the summary of the check run.
+ * @param conclusion Conclusion of the check run.
+ */
+export async function postNothingAnalyzedCheckRun(message: string, conclusion: 'success' | 'neutral' | 'failure') {
+  try {
+    Logger.Instance.header('Creating a check run for this pull request.');
+    await octokit.rest.checks.create({
+      owner: githubConfig.owner,
+      repo: githubConfig.reponame,
+      name: 'TICS',
+      head_sha: githubConfig.commitSha,
+      status: 'completed',
+      conclusion: conclusion,
+      output: {
+        title: 'TiCS Analysis',
+        summary: message
+      }
+    });
+    Logger.Instance.info('Created check run.');
+  } catch (error: any) {
+    Logger.Instance.error(`Creating the check run failed: ${error.message}`);
+  }
+}
+
+/**
+ * Creates a check run annotation from a TiCS annotation.
+ * @param annotation Annotation retrieved from the viewer, of which the path is set.
+ * @returns The check run annotation.
+ */
+function createCheckAnnotation(annotation: Annotation) {
+  const line = annotation.line > 0 ? annotation.line : 1;
+  const displayCount = annotation.count > 1 ? `(${annotation.count}x) ` : '';
+
+  return {
+    path: annotation.path,
+    start_line: line,
+    end_line: annotation.endLine !== undefined && annotation.endLine > line ? annotation.endLine : line,
+    annotation_level: getAnnotationLevel(annotation.level),
+    title: `TiCS: ${annotation.type} violation: ${annotation.rule}`,
+    message: annotation.msg,
+    raw_details: `${displayCount}${formatLines(annotation)}, Rule: ${annotation.rule}, Level: ${annotation.level}, Category: ${annotation.category}`
+  };
+}
+
+/**
+ * Maps the TiCS violation level to a check run annotation level.
+ * @param level TiCS level, 1 being the most severe.
+ * @returns The annotation level.
+ */
+function getAnnotationLevel(level: number): 'failure' | 'warning' | 'notice' {
+  const severity = getAnnotationSeverity(level);
+  return severity === 'error' ? 'failure' : severity === 'note' ? 'notice' : 'warning';
+}
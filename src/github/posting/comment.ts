@@ -1,7 +1,8 @@
 import { githubConfig, octokit } from '../../configuration';
 import Logger from '../../helper/logger';
 import { Analysis } from '../../helper/interfaces';
-import { createErrorSummary } from '../../helper/summary';
+import { createErrorSummary, createRunHistorySummary, getRunHistory } from '../../helper/summary';
+import { getPostedComments } from '../calling/comments';
 
 /**
  * Create error comment on the pull request from the analysis given.
@@ -13,7 +14,7 @@ export async function postErrorComment(analysis: Analysis) {
       owner: githubConfig.owner,
       repo: githubConfig.reponame,
       issue_number: githubConfig.pullRequestNumber,
-      body: createErrorSummary(analysis.errorList, analysis.warningList)
+      body: createErrorSummary(analysis.diagnostics)
     };
 
     Logger.Instance.header('Posting error summary in pull request.');
@@ -23,3 +24,41 @@ export async function postErrorComment(analysis: Analysis) {
     Logger.Instance.error(`Posting the comment failed: ${error.message}`);
   }
 }
+
+/**
+ * Creates or updates the sticky summary comment on the pull request, keeping a history of the previous runs.
+ * @param body The summary to post.
+ * @param passed Whether the quality gate of this run passed.
+ */
+export async function postSummaryComment(body: string, passed: boolean) {
+  const comments = await getPostedComments();
+  const previousComment = comments ? comments.find(comment => comment.body && getRunHistory(comment.body)) : undefined;
+
+  let history = previousComment && previousComment.body ? getRunHistory(previousComment.body) || [] : [];
+  history.push({ sha: githubConfig.commitSha, passed: passed, time: new Date().toISOString() });
+  history = history.slice(-10);
+
+  try {
+    Logger.Instance.header('Posting summary in pull request.');
+    if (previousComment) {
+      const params = {
+        owner: githubConfig.owner,
+        repo: githubConfig.reponame,
+        comment_id: previousComment.id,
+        body: body + createRunHistorySummary(history)
+      };
+      await octokit.rest.issues.updateComment(params);
+    } else {
+      const params = {
+        owner: githubConfig.owner,
+        repo: githubConfig.reponame,
+        issue_number: githubConfig.pullRequestNumber,
+        body: body + createRunHistorySummary(history)
+      };
+      await octokit.rest.issues.createComment(params);
+    }
+    Logger.Instance.info('Posted the summary in pull request.');
+  } catch (error: any) {
+    Logger.Instance.error(`Posting the summary failed: ${error.message}`);
+  }
+}
@@ -0,0 +1,175 @@
+import { summary } from '@actions/core';
+import Logger from '../../helper/logger';
+import { Analysis, Annotation, QualityGate, ReviewComments, SuppressedAnnotations } from '../../helper/interfaces';
+import { createErrorSummary, formatLineRange } from '../../helper/summary';
+import { formatSuppression } from '../../helper/suppressions';
+import { ticsConfig, viewerUrl } from '../../configuration';
+
+/**
+ * Writes the quality gate, the analyzed files and the unpostable and suppressed annotations to the summary of the job.
+ * @param analysis Analysis object returned from TiCS analysis.
+ * @param filesAnalyzed List of all files analyzed by TiCS.
+ * @param qualityGate Quality gate returned by TiCS.
+ * @param reviewComments TiCS annotations in the form of review comments.
+ */
+export async function postJobSummary(
+  analysis: Analysis,
+  filesAnalyzed: string[],
+  qualityGate: QualityGate,
+  reviewComments: ReviewComments | undefined
+) {
+  try {
+    Logger.Instance.header('Writing the results to the job summary.');
+    addQualityGate(qualityGate);
+    if (analysis.explorerUrl) {
+      summary.addLink('See the results in the TiCS Viewer', analysis.explorerUrl).addBreak();
+    }
+    if (reviewComments && reviewComments.unpostable.length > 0) {
+      addUnpostableAnnotations(reviewComments.unpostable);
+    }
+    if (reviewComments && reviewComments.suppressed) {
+      addSuppressedAnnotations(reviewComments.suppressed);
+    }
+    addAnalyzedFiles(filesAnalyzed);
+    await summary.write();
+    Logger.Instance.info('Wrote the results to the job summary.');
+  } catch (error: any) {
+    Logger.Instance.error(`Writing the job summary failed: ${error.message}`);
+  }
+}
+
+/**
+ * Writes the quality gate summary to the summary of the job.
+ * @param qualityGate Quality gate returned by TiCS.
+ */
+export async function postQualityGateJobSummary(qualityGate: QualityGate) {
+  try {
+    Logger.Instance.header('Writing the quality gate to the job summary.');
+    addQualityGate(qualityGate);
+    await summary.write();
+    Logger.Instance.info('Wrote the quality gate to the job summary.');
+  } catch (error: any) {
+    Logger.Instance.error(`Writing the job summary failed: ${error.message}`);
+  }
+}
+
+/**
+ * Writes the errors (and warnings optionally) of a failed analysis to the summary of the job.
+ * @param analysis Analysis object returned from TiCS analysis.
+ */
+export async function postErrorJobSummary(analysis: Analysis) {
+  try {
+    Logger.Instance.header('Writing the errors to the job summary.');
+    await summary.addRaw(createErrorSummary(analysis.diagnostics)).write();
+    Logger.Instance.info('Wrote the errors to the job summary.');
+  } catch (error: any) {
+    Logger.Instance.error(`Writing the job summary failed: ${error.message}`);
+  }
+}
+
+/**
+ * Adds the quality gate with a table of conditions per gate to the job summary.
+ * The files of a condition are added in an expandable area below the table.
+ * @param qualityGate Quality gate returned by TiCS.
+ */
+function addQualityGate(qualityGate: QualityGate) {
+  summary.addHeading('TiCS Quality Gate', 2).addHeading(getStatus(qualityGate.passed), 3);
+
+  qualityGate.gates.forEach(gate => {
+    const conditions = gate.conditions.filter(condition => !condition.skipped);
+
+    summary.addHeading(gate.name, 3);
+    summary.addTable([
+      [
+        { data: 'Status', header: true },
+        { data: 'Condition', header: true }
+      ],
+      ...conditions.map(condition => [getStatus(condition.passed), condition.message])
+    ]);
+
+    conditions.forEach(condition => {
+      if (!condition.details || condition.details.items.length <= 0) return;
+
+      let body = `<table><tr><th>File</th><th>${condition.details.dataKeys.actualValue.title}</th></tr>`;
+      condition.details.items
+        .filter(item => item.itemType === 'file')
+        .forEach(item => {
+          body += `<tr><td><a href="${viewerUrl}/${item.link}">${item.name}</a></td><td>${item.data.actualValue.formattedValue}</td></tr>`;
+        });
+      body += '</table>';
+      summary.addDetails(`${getStatus(condition.passed)} ${condition.message}`, body);
+    });
+  });
+}
+
+/**
+ * Adds a table of the annotations that could not be posted as review comments to the job summary.
+ * @param unpostableReviewComments Review comments that could not be posted.
+ */
+function addUnpostableAnnotations(unpostableReviewComments: Annotation[]) {
+  summary.addHeading('Quality gate failures that cannot be annotated in Files Changed', 3).addTable([
+    [
+      { data: 'File', header: true },
+      { data: 'Line', header: true },
+      { data: 'Level', header: true },
+      { data: 'Category', header: true },
+      { data: 'Violation', header: true },
+      { data: 'Message', header: true }
+    ],
+    // each cell should be a string, as addTable reads any other value as a cell object
+    ...unpostableReviewComments.map(reviewComment => [
+      reviewComment.path ? reviewComment.path : '',
+      formatLineRange(reviewComment),
+      `${reviewComment.level}`,
+      reviewComment.category ? reviewComment.category : '',
+      `${reviewComment.type} violation: ${reviewComment.rule} ${reviewComment.displayCount ? reviewComment.displayCount : ''}`.trim(),
+      reviewComment.msg
+    ])
+  ]);
+}
+
+/**
+ * Adds a table of the number of annotations suppressed by each suppression to the job summary.
+ * @param suppressed Suppressions that matched annotations with the number of suppressed annotations.
+ */
+function addSuppressedAnnotations(suppressed: SuppressedAnnotations[]) {
+  summary.addHeading(`Violations suppressed by ${ticsConfig.suppressionsFile}`, 3).addTable([
+    [
+      { data: 'Suppression', header: true },
+      { data: 'Reason', header: true },
+      { data: 'Expires', header: true },
+      { data: 'Suppressed', header: true }
+    ],
+    ...suppressed.map(entry => [
+      formatSuppression(entry.suppression),
+      entry.suppression.reason ? entry.suppression.reason : '',
+      entry.suppression.expires ? entry.suppression.expires : '',
+      `${entry.count}`
+    ])
+  ]);
+}
+
+/**
+ * Adds an expandable list of the analyzed files to the job summary.
+ * @param filesAnalyzed List of all files analyzed by TiCS.
+ */
+function addAnalyzedFiles(filesAnalyzed: string[]) {
+  let body = '<ul>';
+  filesAnalyzed
+    .slice()
+    .sort()
+    .forEach(file => {
+      body += `<li>${file}</li>`;
+    });
+  body += '</ul>';
+  summary.addDetails('The following files have been checked:', body);
+}
+
+/**
+ * Gets the status text for the job summary, which is rendered as HTML so emoji shortcodes cannot be used.
+ * @param passed Whether the gate or condition passed.
+ * @returns The status text.
+ */
+function getStatus(passed: boolean) {
+  return passed ? '✔️ Passed' : '❌ Failed';
+}
@@ -0,0 +1,74 @@
+import { setOutput } from '@actions/core';
+import { resolve } from 'canonical-path';
+import { writeFileSync } from 'fs';
+import Logger from '../../helper/logger';
+import { Analysis, Annotation, QualityGate, ReviewComments } from '../../helper/interfaces';
+
+/**
+ * Sets the result of the analysis as outputs of the action and writes the full result to a JSON file.
+ * @param analysis Analysis object returned from TiCS analysis.
+ * @param filesAnalyzed List of all files analyzed by TiCS.
+ * @param qualityGate Quality gate returned by TiCS.
+ * @param reviewComments TiCS annotations in the form of review comments.
+ * @param annotations Annotations retrieved from the viewer.
+ */
+export function setResultOutputs(
+  analysis: Analysis,
+  filesAnalyzed: string[],
+  qualityGate: QualityGate,
+  reviewComments: ReviewComments | undefined,
+  annotations: Annotation[] | undefined
+) {
+  Logger.Instance.header('Setting the outputs of the action.');
+
+  try {
+    const conditions = getConditionOutputs(qualityGate);
+
+    setOutput('passed', qualityGate.passed);
+    setOutput('message', qualityGate.message);
+    setOutput('explorerUrl', analysis.explorerUrl ? analysis.explorerUrl : '');
+    setOutput('analyzedFiles', filesAnalyzed.length);
+    setOutput('conditions', JSON.stringify(conditions));
+    setOutput('failedConditions', conditions.filter(condition => !condition.passed && !condition.skipped).length);
+    setOutput('postableAnnotations', reviewComments ? reviewComments.postable.length : 0);
+    setOutput('unpostableAnnotations', reviewComments ? reviewComments.unpostable.length : 0);
+
+    const resultPath = resolve('tics-result.json');
+    const result = {
+      passed: qualityGate.passed,
+      message: qualityGate.message,
+      explorerUrl: analysis.explorerUrl,
+      analyzedFiles: filesAnalyzed,
+      qualityGate: qualityGate,
+      annotations: annotations ? annotations : [],
+      reviewComments: reviewComments ? reviewComments : { postable: [], unpostable: [] }
+    };
+    writeFileSync(resultPath, JSON.stringify(result, null, 2));
+    setOutput('resultFile', resultPath);
+
+    Logger.Instance.info(`Set the outputs, full result written to: ${resultPath}`);
+  } catch (error: any) {
+    Logger.Instance.error(`Setting the outputs failed: ${error.message}`);
+  }
+}
+
+/**
+ * Flattens the conditions of all gates of the quality gate into a list with the status and item count of each condition.
+ * @param qualityGate Quality gate returned by TiCS.
+ * @returns List of the conditions per gate.
+ */
+function getConditionOutputs(qualityGate: QualityGate) {
+  let conditions: any[] = [];
+  qualityGate.gates.forEach(gate => {
+    gate.conditions.forEach(condition => {
+      conditions.push({
+        gate: gate.name,
+        message: condition.message,
+        passed: condition.passed,
+        skipped: condition.skipped ? true : false,
+        count: condition.details ? condition.details.itemCount : 0
+      });
+    });
+  });
+  return conditions;
+}
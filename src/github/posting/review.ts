@@ -1,9 +1,22 @@
 import Logger from '../../helper/logger';
-import { Analysis, QualityGate, ReviewComments } from '../../helper/interfaces';
+import { Analysis, QualityGate, ReviewComment, ReviewComments, RunState } from '../../helper/interfaces';
 import { githubConfig, octokit, ticsConfig } from '../../configuration';
-import { createFilesSummary, createLinkSummary, createUnpostableReviewCommentsSummary, createQualityGateSummary } from '../../helper/summary';
+import {
+  createFilesSummary,
+  createLinkSummary,
+  createUnpostableReviewCommentsSummary,
+  createQualityGateSummary,
+  createRunDeltaSummary,
+  createRunState,
+  createRunStateMarker,
+  createSuppressedSummary,
+  getRunState
+} from '../../helper/summary';
 import { Events, Status } from '../../helper/enums';
 import { generateStatusMarkdown } from '../../helper/markdown';
+import { getPostedReviews } from '../calling/reviews';
+import { getPostedComments } from '../calling/comments';
+import { postSummaryComment } from './comment';
 
 /**
  * Create review on the pull request from the analysis given.
@@ -13,16 +26,27 @@ import { generateStatusMarkdown } from '../../helper/markdown';
  * @param reviewComments TiCS annotations in the form of review comments.
  */
 export async function postReview(analysis: Analysis, filesAnalyzed: string[], qualityGate: QualityGate, reviewComments: ReviewComments | undefined) {
+  const state = createRunState(qualityGate, reviewComments);
+  const previousState = await getPreviousRunState();
+
   let body = createQualityGateSummary(qualityGate);
   body += analysis.explorerUrl ? createLinkSummary(analysis.explorerUrl) : '';
+  body += previousState ? createRunDeltaSummary(previousState, state) : '';
   body += reviewComments && reviewComments.unpostable.length > 0 ? createUnpostableReviewCommentsSummary(reviewComments.unpostable) : '';
+  body += reviewComments && reviewComments.suppressed ? createSuppressedSummary(reviewComments.suppressed) : '';
   body += createFilesSummary(filesAnalyzed);
+  body += createRunStateMarker(state);
+  const event = ticsConfig.pullRequestApproval ? (qualityGate.passed ? Events.APPROVE : Events.REQUEST_CHANGES) : Events.COMMENT;
+
+  if (ticsConfig.stickySummary) {
+    return postStickySummary(body, event, qualityGate.passed, reviewComments ? reviewComments.postable : undefined);
+  }
 
   const params: any = {
     owner: githubConfig.owner,
     repo: githubConfig.reponame,
     pull_number: githubConfig.pullRequestNumber,
-    event: ticsConfig.pullRequestApproval ? (qualityGate.passed ? Events.APPROVE : Events.REQUEST_CHANGES) : Events.COMMENT,
+    event: event,
     body: body,
     comments: reviewComments ? reviewComments.postable : undefined
   };
@@ -36,13 +60,33 @@ export async function postReview(analysis: Analysis, filesAnalyzed: string[], qu
   }
 }
 
+/**
+ * Gets the state of the previous run from the last review (or sticky summary) that contains it.
+ * @returns The state of the previous run, or undefined if there is no previous run.
+ */
+async function getPreviousRunState(): Promise<RunState | undefined> {
+  const posted: { body?: string | null }[] | undefined = ticsConfig.stickySummary ? await getPostedComments() : await getPostedReviews();
+  if (!posted) return undefined;
+
+  for (const item of posted.slice().reverse()) {
+    const state = item.body ? getRunState(item.body) : undefined;
+    if (state) return state;
+  }
+  return undefined;
+}
+
 /**
  * Create review on the pull request with a body and approval0.
  * @param message Message to display in the body of the review.
- * @param event Approve or request changes in the review.
+ * @param event Approve, request changes or comment in the review.
  */
 export async function postNothingAnalyzedReview(message: string, event: Events) {
-  const body = `## TiCS Analysis\n\n### ${generateStatusMarkdown(Status[event === Events.APPROVE ? 1 : 0], true)}\n\n${message}`;
+  const status = event === Events.APPROVE ? Status.PASSED : event === Events.COMMENT ? Status.SKIPPED : Status.FAILED;
+  const body = `## TiCS Analysis\n\n### ${generateStatusMarkdown(Status[status], true)}\n\n${message}`;
+
+  if (ticsConfig.stickySummary) {
+    return postStickySummary(body, ticsConfig.pullRequestApproval ? event : Events.COMMENT, event === Events.APPROVE, undefined);
+  }
 
   const params: any = {
     owner: githubConfig.owner,
@@ -60,3 +104,75 @@ export async function postNothingAnalyzedReview(message: string, event: Events)
     Logger.Instance.error(`Posting the review failed: ${error.message}`);
   }
 }
+
+/**
+ * Posts the summary as a sticky comment that is updated every run. A review is only created to approve or request
+ * changes and to post the review comments with, the reviews of previous runs are dismissed or minimized.
+ * @param body The summary to post.
+ * @param event Approve, request changes or comment in the review.
+ * @param passed Whether the quality gate passed.
+ * @param comments TiCS annotations in the form of review comments.
+ */
+async function postStickySummary(body: string, event: Events, passed: boolean, comments: ReviewComment[] | undefined) {
+  const previousReviews = await getPostedReviews();
+
+  await postSummaryComment(body, passed);
+
+  if (event !== Events.COMMENT || (comments && comments.length > 0)) {
+    const params: any = {
+      owner: githubConfig.owner,
+      repo: githubConfig.reponame,
+      pull_number: githubConfig.pullRequestNumber,
+      event: event,
+      body: `## TiCS Quality Gate\n\n### ${generateStatusMarkdown(
+        Status[passed ? 1 : 0],
+        true
+      )}\n\nSee the TiCS summary in the conversation of this pull request.`,
+      comments: comments
+    };
+
+    try {
+      Logger.Instance.header('Posting a review for this pull request.');
+      await octokit.rest.pulls.createReview(params);
+      Logger.Instance.info('Posted review for this pull request.');
+    } catch (error: any) {
+      Logger.Instance.error(`Posting the review failed: ${error.message}`);
+    }
+  }
+
+  if (previousReviews && previousReviews.length > 0) {
+    await dismissPreviousReviews(previousReviews);
+  }
+}
+
+/**
+ * Dismisses the approving or change requesting reviews of previous runs and minimizes the commenting ones.
+ * @param postedReviews Previously posted reviews.
+ */
+export async function dismissPreviousReviews(postedReviews: any[]) {
+  Logger.Instance.header('Dismissing reviews of previous runs.');
+  await Promise.all(
+    postedReviews.map(async review => {
+      if (!review.body || !review.body.startsWith('## TiCS') || review.state === 'DISMISSED') return;
+      try {
+        if (review.state === 'APPROVED' || review.state === 'CHANGES_REQUESTED') {
+          const params = {
+            owner: githubConfig.owner,
+            repo: githubConfig.reponame,
+            pull_number: githubConfig.pullRequestNumber,
+            review_id: review.id,
+            message: 'Superseded by a newer TiCS analysis.'
+          };
+          await octokit.rest.pulls.dismissReview(params);
+        } else {
+          await octokit.graphql('mutation($id: ID!) { minimizeComment(input: { subjectId: $id, classifier: OUTDATED }) { clientMutationId } }', {
+            id: review.node_id
+          });
+        }
+      } catch (error: any) {
+        Logger.Instance.error(`Could not dismiss review: ${error.message}`);
+      }
+    })
+  );
+  Logger.Instance.info('Dismissed reviews of previous runs.');
+}
@@ -0,0 +1,23 @@
+import { join } from 'canonical-path';
+
+/**
+ * Gets the path of the file of an annotation relative to the root of the checkout, by stripping the project and
+ * branch from the TiCS path (e.g. HIE://project/branch/src/file.ts).
+ * @param fullPath Full path of the file in TiCS.
+ * @param branchPrefix Path of the branch directory relative to the root of the checkout.
+ * @returns The path relative to the repository.
+ */
+export function getAnnotationPath(fullPath: string, branchPrefix: string): string {
+  return join(branchPrefix, fullPath.split('/').slice(4).join('/'));
+}
+
+/**
+ * Maps the TiCS violation level to a severity.
+ * @param level TiCS level, 1 being the most severe.
+ * @returns error for level 1, warning for levels 2 to 4 and note for the other levels.
+ */
+export function getAnnotationSeverity(level: number): 'error' | 'warning' | 'note' {
+  if (level === 1) return 'error';
+  if (level >= 2 && level <= 4) return 'warning';
+  return 'note';
+}
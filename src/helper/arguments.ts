@@ -0,0 +1,58 @@
+/**
+ * Splits a string of command line arguments into separate arguments using shell-like rules:
+ * - arguments are separated by unquoted whitespace;
+ * - single quotes preserve everything between them literally;
+ * - double quotes preserve everything between them, except that \" and \\ are unescaped;
+ * - outside of quotes a backslash escapes a quote, a backslash or whitespace. Any other backslash
+ *   is kept as is, so Windows paths can be passed without escaping.
+ * No expansion of variables, globs or commands is done.
+ * @param input The arguments as a single string.
+ * @returns List of arguments.
+ */
+export function splitArguments(input: string): string[] {
+  let args: string[] = [];
+  let current = '';
+  let inArgument = false;
+  let quote: string | undefined;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    const next = input[i + 1];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = undefined;
+      } else {
+        current += char;
+      }
+    } else if (quote === '"') {
+      if (char === '\\' && (next === '"' || next === '\\')) {
+        current += next;
+        i++;
+      } else if (char === '"') {
+        quote = undefined;
+      } else {
+        current += char;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inArgument = true;
+    } else if (char === '\\' && next !== undefined && /["'\\\s]/.test(next)) {
+      current += next;
+      inArgument = true;
+      i++;
+    } else if (/\s/.test(char)) {
+      if (inArgument) args.push(current);
+      current = '';
+      inArgument = false;
+    } else {
+      current += char;
+      inArgument = true;
+    }
+  }
+
+  if (quote) throw Error(`Unterminated ${quote} in arguments: ${input}`);
+  if (inArgument) args.push(current);
+
+  return args;
+}
@@ -0,0 +1,86 @@
+import { DiffHunk } from './interfaces';
+
+// e.g. "@@ -1,5 +1,6 @@ function name", the line counts are left out when they are 1
+const hunkHeaderPattern = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses the patch of a changed file (the hunks of a unified diff) into hunks with their lines.
+ * The numbers of the lines in a hunk are derived from the header and the line counts, so text in the
+ * changed code that looks like a header is never mistaken for one.
+ * @param patch The patch of the file, as returned by GitHub.
+ * @returns The hunks of the patch.
+ */
+export function parsePatch(patch: string | undefined): DiffHunk[] {
+  if (!patch) return [];
+
+  let hunks: DiffHunk[] = [];
+  let hunk: DiffHunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  patch.split(/\r?\n/).forEach(text => {
+    if (oldRemaining === 0 && newRemaining === 0) {
+      // outside of a hunk only the header of the next hunk is of interest
+      const header = text.match(hunkHeaderPattern);
+      if (!header) return;
+
+      hunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] !== undefined ? Number(header[2]) : 1,
+        newStart: Number(header[3]),
+        newLines: header[4] !== undefined ? Number(header[4]) : 1,
+        lines: []
+      };
+      hunks.push(hunk);
+      oldLine = hunk.oldStart;
+      newLine = hunk.newStart;
+      oldRemaining = hunk.oldLines;
+      newRemaining = hunk.newLines;
+      return;
+    }
+
+    if (text.startsWith('+') && newRemaining > 0) {
+      hunk!.lines.push({ type: 'added', newLine: newLine++ });
+      newRemaining--;
+    } else if (text.startsWith('-') && oldRemaining > 0) {
+      hunk!.lines.push({ type: 'deleted', oldLine: oldLine++ });
+      oldRemaining--;
+    } else if (text.startsWith('\\')) {
+      // "\ No newline at end of file" belongs to the previous line
+    } else if (oldRemaining > 0 && newRemaining > 0) {
+      // context lines start with a space, which is sometimes stripped when the line is otherwise empty
+      hunk!.lines.push({ type: 'context', oldLine: oldLine++, newLine: newLine++ });
+      oldRemaining--;
+      newRemaining--;
+    } else {
+      // the line does not fit the line counts of the header, so the rest of the hunk cannot be mapped
+      oldRemaining = newRemaining = 0;
+    }
+  });
+
+  return hunks;
+}
+
+/**
+ * Clips a range of lines of the new version of a file to the lines that can be commented on in a pull request review,
+ * which are the added and context lines of the hunks (the RIGHT side of the diff). Deleted lines only exist on the LEFT side.
+ * GitHub only accepts a multi-line comment within a single hunk, so the range is clipped to the first hunk it overlaps.
+ * @param hunks The hunks of the patch of the file.
+ * @param startLine First line of the range.
+ * @param endLine Last line of the range.
+ * @returns The first and last line that can be commented on, or undefined if none of the lines can be commented on.
+ */
+export function clipToHunk(hunks: DiffHunk[], startLine: number, endLine: number): [number, number] | undefined {
+  for (const hunk of hunks) {
+    const lines = hunk.lines.filter(line => line.newLine !== undefined).map(line => line.newLine!);
+    if (lines.length === 0) continue;
+
+    // the lines of the new version are numbered consecutively within a hunk
+    const start = Math.max(startLine, lines[0]);
+    const end = Math.min(endLine, lines[lines.length - 1]);
+    if (start <= end) return [start, end];
+  }
+  return undefined;
+}
@@ -5,6 +5,13 @@ export enum Status {
   'SKIPPED' = 3
 }
 
+export enum Outcome {
+  'APPROVE' = 'approve',
+  'COMMENT' = 'comment',
+  'NEUTRAL' = 'neutral',
+  'FAIL' = 'fail'
+}
+
 export enum Events {
   'APPROVE' = 'APPROVE',
   'COMMENT' = 'COMMENT',
@@ -0,0 +1,68 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'canonical-path';
+import { githubConfig } from '../configuration';
+import { Annotation } from './interfaces';
+import { findGitRoot } from './git';
+
+const fingerprintPattern = /<!-- tics-fingerprint: ([0-9a-f]+) -->/;
+
+/**
+ * Creates fingerprints for annotations that stay the same when lines are added or removed above the annotation.
+ * A fingerprint is based on the path, rule and message of the annotation and the (whitespace normalized) source
+ * line it is on, falling back to the line number if the source cannot be read. Annotations with the same
+ * fingerprint in a file are numbered in order of their line, so each fingerprint is unique.
+ * @param annotations Annotations of which the path is set, sorted by file and line.
+ * @returns The fingerprint of each annotation.
+ */
+export function createFingerprints(annotations: Annotation[]): string[] {
+  const gitRoot = findGitRoot();
+  const root = gitRoot !== undefined ? gitRoot : githubConfig.branchdir;
+  let sources = new Map<string, string[] | undefined>();
+  let occurrences = new Map<string, number>();
+
+  return annotations.map(annotation => {
+    const path = annotation.path!;
+    if (!sources.has(path)) sources.set(path, readSource(join(root, path)));
+    const source = sources.get(path);
+    const sourceLine = source && source[annotation.line - 1] !== undefined ? source[annotation.line - 1].trim().replace(/\s+/g, ' ') : undefined;
+
+    const key = [path, annotation.rule, annotation.msg, sourceLine !== undefined ? sourceLine : `line ${annotation.line}`].join('\0');
+    const occurrence = (occurrences.has(key) ? occurrences.get(key)! : 0) + 1;
+    occurrences.set(key, occurrence);
+
+    return createHash('sha256').update(`${key}\0${occurrence}`).digest('hex').substring(0, 16);
+  });
+}
+
+/**
+ * Creates a hidden marker containing the fingerprint of an annotation, to add to the review comment of the annotation.
+ * @param fingerprint The fingerprint of the annotation.
+ * @returns The marker.
+ */
+export function createFingerprintMarker(fingerprint: string): string {
+  return `<!-- tics-fingerprint: ${fingerprint} -->`;
+}
+
+/**
+ * Gets the fingerprint of the annotation a review comment was posted for.
+ * @param body Body of the review comment.
+ * @returns The fingerprint, or undefined if the comment has no fingerprint (e.g. it was posted by an older version).
+ */
+export function getFingerprint(body: string): string | undefined {
+  const match = body.match(fingerprintPattern);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Reads the lines of a source file.
+ * @param path Path of the file.
+ * @returns The lines of the file, or undefined if it cannot be read.
+ */
+function readSource(path: string): string[] | undefined {
+  try {
+    return readFileSync(path, 'utf8').split(/\r?\n/);
+  } catch {
+    return undefined;
+  }
+}
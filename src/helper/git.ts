@@ -0,0 +1,149 @@
+import { getExecOutput } from '@actions/exec';
+import { dirname, join, relative } from 'canonical-path';
+import { existsSync } from 'fs';
+import { githubConfig } from '../configuration';
+import { ChangedFile } from './interfaces';
+import Logger from './logger';
+
+/**
+ * Retrieves the changed files of the pull request from the checkout by diffing the merge base against HEAD.
+ * The result has the same form as the files returned by the GitHub pulls API.
+ * @returns List of changed files within the pull request.
+ */
+export async function getChangedFilesFromGit(): Promise<ChangedFile[]> {
+  Logger.Instance.info('Retrieving changed files from the git checkout.');
+
+  let mergeBase;
+  try {
+    mergeBase = (await git(['merge-base', githubConfig.baseSha, 'HEAD'])).trim();
+  } catch (error: any) {
+    throw Error(
+      `Could not determine the merge base with ${githubConfig.baseSha}, make sure the history is fetched (e.g. fetch-depth: 0 on actions/checkout): ${error.message}`
+    );
+  }
+  Logger.Instance.debug(`Diffing merge base ${mergeBase} against HEAD.`);
+
+  const nameStatus = await git(['diff', '--name-status', '-z', '--find-renames', mergeBase, 'HEAD']);
+  const diff = await git(['diff', '--no-color', '--no-ext-diff', '--find-renames', '--unified=3', mergeBase, 'HEAD']);
+
+  return parseGitDiff(nameStatus, diff);
+}
+
+/**
+ * Combines the output of git diff --name-status -z with the output of git diff into changed files.
+ * Both outputs list the files in the same order, so the n-th diff belongs to the n-th name-status entry.
+ * @param nameStatus NUL separated output of git diff --name-status -z.
+ * @param diff Output of git diff.
+ * @returns List of changed files.
+ */
+export function parseGitDiff(nameStatus: string, diff: string): ChangedFile[] {
+  const entries = nameStatus.split('\0');
+  const sections = diff.split(/^diff --git /m).slice(1);
+
+  let changedFiles: ChangedFile[] = [];
+  let index = 0;
+  while (index < entries.length && entries[index] !== '') {
+    const statusCode = entries[index++];
+    let previousFilename: string | undefined;
+    if (statusCode.startsWith('R') || statusCode.startsWith('C')) {
+      previousFilename = entries[index++];
+    }
+    const filename = entries[index++];
+    const section = sections[changedFiles.length] ? sections[changedFiles.length] : '';
+    const patch = getPatch(section);
+
+    let additions = 0;
+    let deletions = 0;
+    if (patch) {
+      patch.split('\n').forEach(line => {
+        if (line.startsWith('+')) additions++;
+        if (line.startsWith('-')) deletions++;
+      });
+    }
+
+    changedFiles.push({
+      sha: '',
+      filename: filename,
+      status: getStatus(statusCode),
+      additions: additions,
+      deletions: deletions,
+      changes: additions + deletions,
+      blob_url: '',
+      raw_url: '',
+      contents_url: '',
+      patch: patch,
+      previous_filename: previousFilename
+    });
+  }
+
+  return changedFiles;
+}
+
+/**
+ * Gets the patch (all hunks) from the diff of a single file.
+ * @param section The part of git diff output belonging to one file.
+ * @returns The patch in the form GitHub returns it or undefined if there are no hunks (e.g. binary files).
+ */
+function getPatch(section: string) {
+  const hunkStart = section.search(/^@@ /m);
+  if (hunkStart === -1) return undefined;
+
+  return section.substring(hunkStart).replace(/\n$/, '');
+}
+
+/**
+ * Maps the git name-status code to the status used by the GitHub pulls API.
+ * @param statusCode Status code returned by git (e.g. M, A, R100).
+ * @returns The GitHub file status.
+ */
+function getStatus(statusCode: string): ChangedFile['status'] {
+  switch (statusCode.charAt(0)) {
+    case 'A':
+      return 'added';
+    case 'D':
+      return 'removed';
+    case 'R':
+      return 'renamed';
+    case 'C':
+      return 'copied';
+    case 'M':
+      return 'modified';
+    default:
+      return 'changed';
+  }
+}
+
+/**
+ * Finds the root of the checkout by looking for a .git directory in the branch directory and its parents.
+ * The branch directory can be the root of the checkout or a subdirectory of it.
+ * @returns The root of the checkout or undefined if no checkout is found.
+ */
+export function findGitRoot(): string | undefined {
+  let directory = githubConfig.branchdir;
+  while (!existsSync(join(directory, '.git'))) {
+    const parent = dirname(directory);
+    if (parent === directory) return undefined;
+    directory = parent;
+  }
+  return directory;
+}
+
+/**
+ * Gets the path of the branch directory relative to the root of the checkout.
+ * @returns The relative path or an empty string if the branch directory is the root of the checkout.
+ */
+export function getBranchPrefix() {
+  const gitRoot = findGitRoot();
+  return gitRoot !== undefined ? relative(gitRoot, githubConfig.branchdir) : '';
+}
+
+/**
+ * Runs a git command in the checkout.
+ * @param args Arguments to pass to git.
+ * @returns The stdout of the git command.
+ */
+async function git(args: string[]) {
+  const gitRoot = findGitRoot();
+  const output = await getExecOutput('git', args, { cwd: gitRoot ? gitRoot : undefined, silent: true });
+  return output.stdout;
+}
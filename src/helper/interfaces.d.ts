@@ -1,26 +1,236 @@
+import { Outcome } from './enums';
+
 export interface Analysis {
   completed: boolean;
   statusCode: number;
-  errorList: string[];
-  warningList: string[];
+  diagnostics: Diagnostic[];
   explorerUrl?: string;
+  timeout?: AnalysisTimeout;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  // code of TiCS, e.g. 5057 for [WARNING 5057], not set for errors of the action itself
+  code?: number;
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+export interface DiagnosticGroup {
+  severity: DiagnosticSeverity;
+  code?: number;
+  // number of occurrences, including duplicates
+  count: number;
+  // the distinct occurrences
+  diagnostics: Diagnostic[];
+}
+
+export interface DiagnosticHint {
+  // a hint has a code, a pattern or both
+  code?: number;
+  // regular expression (case insensitive) searched for in the message
+  pattern?: string;
+  // applies to both errors and warnings if not set
+  severity?: DiagnosticSeverity;
+  explanation: string;
+  link?: string;
+}
+
+export interface PolicyRule {
+  text: string;
+  // the rule matches on the exit code of TiCS if not set
+  severity?: DiagnosticSeverity;
+  code: string;
+  outcome: Outcome;
+}
+
+export interface PolicyDecision {
+  rule: string;
+  outcome: Outcome;
+  // the warning, error or exit code the rule matched on
+  reason: string;
+}
+
+export type AnalysisPhase = 'install' | 'analysis' | 'upload';
+
+export interface AnalysisTimeout {
+  phase: AnalysisPhase;
+  minutes: number;
+}
+
+export interface ChangedFile {
+  sha: string;
+  filename: string;
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+  additions: number;
+  deletions: number;
+  changes: number;
+  blob_url: string;
+  raw_url: string;
+  contents_url: string;
+  patch?: string;
+  previous_filename?: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface DiffLine {
+  type: 'added' | 'deleted' | 'context';
+  // line number in the old version of the file, not set for added lines
+  oldLine?: number;
+  // line number in the new version of the file, not set for deleted lines
+  newLine?: number;
 }
 
 export interface QualityGate {
   passed: boolean;
   message: string;
   url: string;
-  gates: any[];
-  annotationsApiV1Links: any[];
+  gates: Gate[];
+  annotationsApiV1Links: AnnotationApiLink[];
+}
+
+export interface Gate {
+  name: string;
+  passed: boolean;
+  conditions: Condition[];
+}
+
+export interface Condition {
+  passed: boolean;
+  skipped?: boolean;
+  error?: boolean;
+  message: string;
+  details?: ConditionDetails;
+  annotationsApiV1Links?: AnnotationApiLink[];
+}
+
+export interface ConditionDetails {
+  itemTypes?: string[];
+  dataKeys: {
+    actualValue: {
+      title: string;
+      order?: number;
+      itemType?: string;
+    };
+  };
+  itemCount: number;
+  itemLimit?: number;
+  items: ConditionItem[];
+}
+
+export interface ConditionItem {
+  itemType: string;
+  name: string;
+  link: string;
+  data: {
+    actualValue: {
+      formattedValue: string;
+      value?: number;
+      classes?: string[];
+    };
+  };
+}
+
+export interface AnnotationApiLink {
+  url: string;
+}
+
+export interface Annotation {
+  fullPath: string;
+  line: number;
+  level: number;
+  category?: string;
+  rule: string;
+  msg: string;
+  type: string;
+  count: number;
+  supp?: boolean;
+  // last line of the violation, if it spans multiple lines
+  endLine?: number;
+  // set by the action
+  gateId?: number;
+  path?: string;
+  diffHunks?: DiffHunk[];
+  displayCount?: string;
+}
+
+export interface Measure {
+  data: {
+    formattedValue: string;
+    value?: any;
+  }[];
+}
+
+export interface ViewerVersion {
+  version: string;
 }
 
 export interface ReviewComment {
   body: string;
   path: any;
+  // first line of a multi-line comment, line being the last
+  start_line?: number;
   line: any;
 }
 
 export interface ReviewComments {
   postable: ReviewComment[];
   unpostable: any[];
+  // fingerprints of all annotations, postable or not
+  fingerprints?: AnnotationFingerprint[];
+  // only set if annotations were suppressed
+  suppressed?: SuppressedAnnotations[];
+}
+
+export interface Suppression {
+  rule?: string;
+  // glob matched against the path of the file relative to the repository
+  path?: string;
+  // regular expression searched for in the message
+  message?: string;
+  // date (YYYY-MM-DD) after which the suppression no longer applies
+  expires?: string;
+  reason?: string;
+}
+
+export interface SuppressedAnnotations {
+  suppression: Suppression;
+  count: number;
+}
+
+export interface AnnotationFingerprint {
+  fingerprint: string;
+  path: string;
+  line: number;
+  rule: string;
+}
+
+export interface ConditionValue {
+  gate: string;
+  // position of the condition in the gate, as the message of a condition contains its value
+  index: number;
+  message: string;
+  passed: boolean;
+}
+
+export interface RunState {
+  // undefined if the annotations were not retrieved in the run
+  annotations?: AnnotationFingerprint[];
+  conditions: ConditionValue[];
+}
+
+export interface RunHistory {
+  sha: string;
+  passed: boolean;
+  time: string;
 }
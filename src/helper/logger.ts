@@ -1,5 +1,6 @@
 import * as core from '@actions/core';
 import { ticsConfig } from '../configuration';
+import { redact } from './redact';
 
 export default class Logger {
   private static _instance: Logger;
@@ -15,27 +16,33 @@ export default class Logger {
    */
   header(string: string) {
     this.addNewline('header');
-    core.info(`\u001b[34m${string}`);
+    core.info(`\u001b[34m${redact(string)}`);
     this.called = 'header';
   }
 
   /**
-   * Uses core.info to print to the console.
+   * Uses core.info to print to the console, unless logLevel is none.
    *
    * @param {string} string
    */
   info(string: string) {
-    core.info(string);
+    if (ticsConfig.logLevel === 'none') return;
+    core.info(redact(string));
     this.called = 'info';
   }
 
   /**
    * Uses core.debug to print to the console.
+   * If logLevel is debug core.info is used, so the output shows without enabling step debugging.
    *
    * @param {string} string
    */
   debug(string: string) {
-    core.debug(string);
+    if (ticsConfig.logLevel === 'debug') {
+      core.info(redact(string));
+    } else {
+      core.debug(redact(string));
+    }
     this.called = 'debug';
   }
 
@@ -45,7 +52,7 @@ export default class Logger {
    * @param {string} string
    */
   warning(string: string) {
-    core.warning(`\u001b[33m${string}`);
+    core.warning(`\u001b[33m${redact(string)}`);
     this.called = 'warning';
   }
 
@@ -56,7 +63,7 @@ export default class Logger {
    */
   error(error: any) {
     this.addNewline('error');
-    core.error(`\u001b[31m${error}`);
+    core.error(`\u001b[31m${redact(`${error}`)}`);
     this.called = 'error';
   }
 
@@ -67,7 +74,7 @@ export default class Logger {
    */
   setFailed(error: any) {
     this.addNewline('error');
-    core.setFailed(`\u001b[31m${error}`);
+    core.setFailed(`\u001b[31m${redact(`${error}`)}`);
     this.called = 'error';
   }
 
@@ -78,7 +85,7 @@ export default class Logger {
    */
   exit(error: any) {
     this.addNewline('error');
-    core.setFailed(`\u001b[31m${error}`);
+    core.setFailed(`\u001b[31m${redact(`${error}`)}`);
     process.exit(1);
   }
 
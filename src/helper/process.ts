@@ -0,0 +1,148 @@
+import { ChildProcess, spawn } from 'child_process';
+
+// time a process gets to exit after it is asked to terminate, before it is killed
+const killGracePeriod = 10000;
+
+export interface ProcessOptions {
+  cwd?: string;
+  env?: { [key: string]: string };
+  // maximum time in milliseconds the process is allowed to run, no limit if not set
+  timeout?: number;
+  listeners?: {
+    stdout?: (data: Buffer) => void;
+    stderr?: (data: Buffer) => void;
+  };
+}
+
+export interface ProcessOutput {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+export class ProcessTimeoutError extends Error {
+  readonly program: string;
+  readonly timeout: number;
+
+  constructor(program: string, timeout: number) {
+    super(`${program} did not finish within ${timeout / 1000} seconds and was terminated.`);
+    this.name = new.target.name;
+    this.program = program;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Runs a program and waits for it to exit. If the program runs longer than the timeout, or the action itself is
+ * cancelled, the program and all processes it started are terminated gracefully first and killed after a grace period.
+ * A cancelled action exits after the program has been terminated.
+ * @param program The program to run.
+ * @param args The arguments to pass to the program.
+ * @param options Options to run the program with.
+ * @returns The exit code of the program.
+ * @throws ProcessTimeoutError if the program was terminated because of the timeout.
+ */
+export async function runProcess(program: string, args: string[], options: ProcessOptions = {}): Promise<number> {
+  return new Promise((resolve, reject) => {
+    // on Linux the program gets its own process group, so it can be terminated together with its children
+    const child = spawn(program, args, {
+      cwd: options.cwd,
+      env: options.env ? options.env : process.env,
+      detached: process.platform !== 'win32',
+      windowsHide: true
+    });
+
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+    if (options.timeout) {
+      timer = setTimeout(() => {
+        timedOut = true;
+        terminateProcessTree(child);
+      }, options.timeout);
+    }
+
+    // the program runs in its own process group, so it does not receive the signals of a cancelled job itself
+    const onCancel = (signal: NodeJS.Signals) => {
+      terminateProcessTree(child);
+      // listening to the signal disables the default exit on it, so it is raised again once the listeners are removed
+      // to end the action instead of reporting the cancelled run as failed
+      child.once('close', () => process.kill(process.pid, signal));
+    };
+    process.once('SIGINT', onCancel);
+    process.once('SIGTERM', onCancel);
+    const cleanUp = () => {
+      if (timer) clearTimeout(timer);
+      process.removeListener('SIGINT', onCancel);
+      process.removeListener('SIGTERM', onCancel);
+    };
+
+    child.stdout?.on('data', (data: Buffer) => options.listeners?.stdout?.(data));
+    child.stderr?.on('data', (data: Buffer) => options.listeners?.stderr?.(data));
+
+    child.on('error', error => {
+      cleanUp();
+      reject(error);
+    });
+    child.on('close', (code, signal) => {
+      cleanUp();
+      if (timedOut) return reject(new ProcessTimeoutError(program, options.timeout!));
+      if (code === null) return reject(Error(`${program} was terminated by signal ${signal}.`));
+      resolve(code);
+    });
+  });
+}
+
+/**
+ * Runs a program, waits for it to exit and returns its output.
+ * @param program The program to run.
+ * @param args The arguments to pass to the program.
+ * @param options Options to run the program with.
+ * @returns The exit code and the output of the program.
+ * @throws Error if the program exits with a non-zero exit code, ProcessTimeoutError if it was terminated because of the timeout.
+ */
+export async function getProcessOutput(program: string, args: string[], options: ProcessOptions = {}): Promise<ProcessOutput> {
+  let stdout = '';
+  let stderr = '';
+  const exitCode = await runProcess(program, args, {
+    ...options,
+    listeners: {
+      stdout: (data: Buffer) => (stdout += data.toString()),
+      stderr: (data: Buffer) => (stderr += data.toString())
+    }
+  });
+
+  if (exitCode !== 0) throw Error(`${program} failed with exit code ${exitCode}.`);
+  return { exitCode, stdout, stderr };
+}
+
+/**
+ * Asks a process and all processes it started to terminate, and kills them if they are still running after the grace period.
+ * @param child The process to terminate.
+ */
+function terminateProcessTree(child: ChildProcess) {
+  if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) return;
+
+  signalProcessTree(child.pid, false);
+  const killTimer = setTimeout(() => signalProcessTree(child.pid!, true), killGracePeriod);
+  killTimer.unref();
+  child.once('close', () => clearTimeout(killTimer));
+}
+
+/**
+ * Sends a terminate or kill signal to a process and all processes it started.
+ * @param pid Id of the process.
+ * @param force Kill the processes instead of asking them to terminate.
+ */
+function signalProcessTree(pid: number, force: boolean) {
+  try {
+    if (process.platform === 'win32') {
+      // Windows has no signals for a tree of processes, taskkill /T walks the tree instead
+      spawn('taskkill', ['/pid', pid.toString(), '/T', ...(force ? ['/F'] : [])], { windowsHide: true }).on('error', () => undefined);
+    } else {
+      // a negative pid signals the whole process group
+      process.kill(-pid, force ? 'SIGKILL' : 'SIGTERM');
+    }
+  } catch {
+    // the processes have exited already
+  }
+}
@@ -0,0 +1,36 @@
+import { setSecret } from '@actions/core';
+import { ticsConfig } from '../configuration';
+
+const mask = '***';
+// shorter values are not masked as they would mask too much of the output
+const minimumSecretLength = 4;
+
+/**
+ * Returns the values of the configuration that should never be printed or posted.
+ * @returns List of the secret values that are set.
+ */
+function getSecrets(): string[] {
+  const secrets = [ticsConfig.githubToken, ticsConfig.ticsAuthToken, ticsConfig.clientData];
+  return secrets.filter(secret => secret && secret.length >= minimumSecretLength);
+}
+
+/**
+ * Registers the secret values of the configuration with the runner, so they are masked in the job log.
+ */
+export function registerSecrets(): void {
+  getSecrets().forEach(secret => setSecret(secret));
+}
+
+/**
+ * Removes secrets, Authorization headers and credentials in urls from a text before it is printed or posted.
+ * @param text Text to redact.
+ * @returns The redacted text.
+ */
+export function redact(text: string): string {
+  let redacted = text;
+  getSecrets().forEach(secret => (redacted = redacted.split(secret).join(mask)));
+
+  return redacted
+    .replace(/(Authorization["']?\s*[:=]\s*["']?)[^"'\r\n,}]+/gi, `$1${mask}`)
+    .replace(/(\b[a-z][a-z0-9+.-]*:\/\/)[^\s/?#@]+@/gi, `$1${mask}@`);
+}
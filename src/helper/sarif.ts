@@ -0,0 +1,153 @@
+import { setOutput } from '@actions/core';
+import { resolve } from 'canonical-path';
+import { writeFileSync } from 'fs';
+import { viewerUrl } from '../configuration';
+import { getBranchPrefix } from './git';
+import { getAnnotationPath, getAnnotationSeverity } from './annotation';
+import { Annotation, QualityGate } from './interfaces';
+import Logger from './logger';
+
+/**
+ * Writes the annotations to a SARIF file so they can be uploaded to GitHub code scanning.
+ * The path of the file is set as the sarifFile output of the action.
+ * @param annotations Annotations retrieved from the viewer.
+ * @param qualityGate Quality gate returned by TiCS.
+ * @returns Path of the written SARIF file.
+ */
+export function exportSarif(annotations: Annotation[], qualityGate: QualityGate): string | undefined {
+  Logger.Instance.header('Writing annotations to SARIF file');
+
+  try {
+    const sarifPath = resolve('tics-results.sarif');
+    writeFileSync(sarifPath, JSON.stringify(createSarifLog(annotations, qualityGate), null, 2));
+    setOutput('sarifFile', sarifPath);
+
+    Logger.Instance.info(`Wrote ${annotations.length} annotation(s) to: ${sarifPath}`);
+    return sarifPath;
+  } catch (error: any) {
+    Logger.Instance.error(`Writing the SARIF file failed: ${error.message}`);
+  }
+}
+
+/**
+ * Creates a SARIF 2.1.0 log from the annotations and the quality gate.
+ * @param annotations Annotations retrieved from the viewer.
+ * @param qualityGate Quality gate returned by TiCS.
+ * @returns The SARIF log.
+ */
+export function createSarifLog(annotations: Annotation[], qualityGate: QualityGate) {
+  const branchPrefix = getBranchPrefix();
+  let rules: any[] = [];
+  let results: any[] = [];
+
+  annotations.forEach(annotation => {
+    let ruleIndex = rules.findIndex(rule => rule.id === annotation.rule);
+    if (ruleIndex === -1) {
+      ruleIndex = rules.push(createSarifRule(annotation)) - 1;
+    }
+    results.push(createSarifResult(annotation, ruleIndex, qualityGate, branchPrefix));
+  });
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'TICS',
+            informationUri: viewerUrl,
+            rules: rules
+          }
+        },
+        results: results,
+        properties: {
+          qualityGate: {
+            passed: qualityGate.passed,
+            message: qualityGate.message,
+            url: qualityGate.url
+          }
+        }
+      }
+    ]
+  };
+}
+
+/**
+ * Creates a SARIF rule descriptor from an annotation.
+ * @param annotation Annotation retrieved from the viewer.
+ * @returns The SARIF rule.
+ */
+function createSarifRule(annotation: Annotation) {
+  return {
+    id: annotation.rule,
+    name: annotation.rule,
+    shortDescription: { text: `${annotation.type} violation: ${annotation.rule}` },
+    defaultConfiguration: { level: getAnnotationSeverity(annotation.level) },
+    properties: {
+      category: annotation.category,
+      tags: [annotation.type, annotation.category].filter(tag => tag)
+    }
+  };
+}
+
+/**
+ * Creates a SARIF result from an annotation.
+ * @param annotation Annotation retrieved from the viewer.
+ * @param ruleIndex Index of the rule of the annotation in the rules of the run.
+ * @param qualityGate Quality gate returned by TiCS.
+ * @param branchPrefix Path of the branch directory relative to the root of the checkout.
+ * @returns The SARIF result.
+ */
+function createSarifResult(annotation: Annotation, ruleIndex: number, qualityGate: QualityGate, branchPrefix: string) {
+  return {
+    ruleId: annotation.rule,
+    ruleIndex: ruleIndex,
+    level: getAnnotationSeverity(annotation.level),
+    message: { text: annotation.msg },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: getAnnotationPath(annotation.fullPath, branchPrefix) },
+          region: createSarifRegion(annotation)
+        }
+      }
+    ],
+    occurrenceCount: annotation.count,
+    properties: {
+      category: annotation.category,
+      level: annotation.level,
+      qualityGate: annotation.gateId !== undefined ? getGateName(qualityGate, annotation.gateId) : undefined
+    }
+  };
+}
+
+/**
+ * Gets the name of the gate an annotation belongs to.
+ * @param qualityGate Quality gate returned by TiCS.
+ * @param gateId Index of the annotations link of the annotation in the annotationsApiV1Links of the quality gate.
+ * @returns The name of the gate with a condition that has the same annotations link, or undefined if there is none.
+ */
+function getGateName(qualityGate: QualityGate, gateId: number): string | undefined {
+  const link = qualityGate.annotationsApiV1Links[gateId];
+  if (!link) return undefined;
+
+  // the annotations links of the quality gate are those of its conditions
+  const gate = qualityGate.gates.find(gate =>
+    gate.conditions.some(condition => condition.annotationsApiV1Links && condition.annotationsApiV1Links.some(l => l.url === link.url))
+  );
+  return gate ? gate.name : undefined;
+}
+
+/**
+ * Creates the SARIF region of the lines of an annotation.
+ * @param annotation Annotation retrieved from the viewer.
+ * @returns The SARIF region.
+ */
+function createSarifRegion(annotation: Annotation) {
+  // SARIF lines are 1-based, TiCS reports line 0 for file level violations
+  const startLine = annotation.line > 0 ? annotation.line : 1;
+  return annotation.endLine !== undefined && annotation.endLine > startLine
+    ? { startLine: startLine, endLine: annotation.endLine }
+    : { startLine: startLine };
+}
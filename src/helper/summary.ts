@@ -1,31 +1,74 @@
 import { generateExpandableAreaMarkdown, generateLinkMarkdown, generateStatusMarkdown, generateTableMarkdown } from './markdown';
-import { QualityGate, ReviewComment, ReviewComments } from './interfaces';
+import {
+  Annotation,
+  AnnotationFingerprint,
+  Condition,
+  ConditionValue,
+  Diagnostic,
+  DiagnosticGroup,
+  QualityGate,
+  ReviewComment,
+  ReviewComments,
+  RunHistory,
+  RunState,
+  SuppressedAnnotations
+} from './interfaces';
 import { githubConfig, ticsConfig, viewerUrl } from '../configuration';
 import { Status } from './enums';
-import { range } from 'underscore';
 import Logger from './logger';
+import { getBranchPrefix } from './git';
+import { getAnnotationPath } from './annotation';
+import { redact } from './redact';
+import { clipToHunk, parsePatch } from './diff';
+import { createFingerprintMarker, createFingerprints } from './fingerprint';
+import { formatDiagnosticGroup, groupDiagnostics } from '../tics/diagnostics';
+import { findHint } from '../tics/hints';
+import { applySuppressions, formatSuppression } from './suppressions';
+
+// violations listed per section of the changes since the last run, as the body of a review is limited
+const maxDeltaViolations = 25;
+// annotations stored in the state of a run, to compare the next run with
+const maxStateAnnotations = 250;
 
 /**
- * Creates a summary of all errors (and warnings optionally) to comment in a pull request.
- * @param errorList list containing all the errors found in the TiCS run.
- * @param warningList list containing all the warnings found in the TiCS run.
+ * Creates a summary of all errors (and warnings optionally) to comment in a pull request, grouped by their code.
+ * @param diagnostics list containing all the errors and warnings found in the TiCS run.
  * @returns string containing the error summary.
  */
-export function createErrorSummary(errorList: string[], warningList: string[]): string {
+export function createErrorSummary(diagnostics: Diagnostic[]): string {
   let summary = '## TiCS Quality Gate\r\n\r\n### :x: Failed';
 
-  if (errorList.length > 0) {
+  const errors = groupDiagnostics(diagnostics, 'error');
+  if (errors.length > 0) {
     summary += '\r\n\r\n #### The following errors have occurred during analysis:\r\n\r\n';
-    errorList.forEach(error => (summary += `> :x: ${error}\r\n`));
+    errors.forEach(group => (summary += createDiagnosticGroupSummary(group, ':x:')));
   }
-  if (warningList.length > 0 && githubConfig.debugger) {
+  const warnings = groupDiagnostics(diagnostics, 'warning');
+  if (warnings.length > 0 && githubConfig.debugger) {
     summary += '\r\n\r\n #### The following warnings have occurred during analysis:\r\n\r\n';
-    warningList.forEach(warning => (summary += `> :warning: ${warning}\r\n`));
+    warnings.forEach(group => (summary += createDiagnosticGroupSummary(group, ':warning:')));
   }
 
   return summary;
 }
 
+/**
+ * Creates the summary of a group of errors or warnings.
+ * @param group the group of diagnostics.
+ * @param icon the icon to prefix the group with.
+ * @returns string containing the summary of the group.
+ */
+function createDiagnosticGroupSummary(group: DiagnosticGroup, icon: string): string {
+  const [title, details] = formatDiagnosticGroup(group);
+
+  let summary = `> ${icon} ${redact(title)}\r\n`;
+  details.forEach(detail => (summary += `> - ${redact(detail)}\r\n`));
+
+  const hint = findHint(group);
+  if (hint) summary += `> :bulb: ${hint.explanation}${hint.link ? ` ${generateLinkMarkdown('More information', hint.link)}` : ''}\r\n`;
+  return summary;
+}
+
 /**
  * Creates a markdown link summary.
  * @param url Url to the TiCS viewer analysis.
@@ -70,7 +113,7 @@ export function createQualityGateSummary(qualityGate: QualityGate): string {
  * @param conditions Conditions of the quality gate
  * @returns Table containing a summary for all conditions
  */
-function createConditionsTable(conditions: any[]) {
+function createConditionsTable(conditions: Condition[]) {
   let conditionsTable = '';
   conditions.forEach(condition => {
     if (condition.skipped) return;
@@ -79,8 +122,8 @@ function createConditionsTable(conditions: any[]) {
     if (condition.details && condition.details.items.length > 0) {
       const headers = [['File', condition.details.dataKeys.actualValue.title]];
       const cells = condition.details.items
-        .filter((item: any) => item.itemType === 'file')
-        .map((item: any) => {
+        .filter(item => item.itemType === 'file')
+        .map(item => {
           return [generateLinkMarkdown(item.name, viewerUrl + '/' + item.link), item.data.actualValue.formattedValue];
         });
       conditionsTable += generateExpandableAreaMarkdown(conditionStatus, generateTableMarkdown(headers, cells));
@@ -97,32 +140,84 @@ function createConditionsTable(conditions: any[]) {
  * @param changedFiles List of files changed in the pull request.
  * @returns List of the review comments.
  */
-export async function createReviewComments(annotations: any[], changedFiles: any[]): Promise<ReviewComments> {
+export async function createReviewComments(annotations: Annotation[], changedFiles: any[]): Promise<ReviewComments> {
   Logger.Instance.info('Creating review comments from annotations.');
 
   const sortedAnnotations = sortAnnotations(annotations);
-  const groupedAnnotations = groupAnnotations(sortedAnnotations, changedFiles);
+  // suppressed annotations are left out of the review altogether, they are only counted in the summary
+  const { annotations: unsuppressedAnnotations, suppressed } = applySuppressions(groupAnnotations(sortedAnnotations, changedFiles));
+  const groupedAnnotations = mergeAdjacentAnnotations(unsuppressedAnnotations);
 
-  let unpostable: ReviewComment[] = [];
-  let postable: ReviewComment[] = [];
+  let unpostable: Annotation[] = [];
+  let postableAnnotations: { annotation: Annotation; fingerprint: string; startLine: number; line: number }[] = [];
 
-  groupedAnnotations.forEach(annotation => {
-    const displayCount = annotation.count === 1 ? '' : `(${annotation.count}x) `;
-    if (annotation.diffLines.includes(annotation.line)) {
+  // the fingerprints are hidden in the review comments and the summary, so the next run can tell which annotations still apply
+  const fingerprints = createFingerprints(groupedAnnotations);
+
+  groupedAnnotations.forEach((annotation, index) => {
+    const lines = annotation.diffHunks ? clipToHunk(annotation.diffHunks, annotation.line, getEndLine(annotation)) : undefined;
+    if (lines) {
       Logger.Instance.debug(`Postable: ${JSON.stringify(annotation)}`);
-      postable.push({
-        body: `:warning: **TiCS: ${annotation.type} violation: ${annotation.msg}**\r\n${displayCount}Line: ${annotation.line}, Rule: ${annotation.rule}, Level: ${annotation.level}, Category: ${annotation.category}\r\n`,
-        path: annotation.path,
-        line: annotation.line
-      });
+      postableAnnotations.push({ annotation: annotation, fingerprint: fingerprints[index], startLine: lines[0], line: lines[1] });
     } else {
-      annotation.displayCount = displayCount;
+      annotation.displayCount = annotation.count === 1 ? '' : `(${annotation.count}x) `;
       Logger.Instance.debug(`Unpostable: ${JSON.stringify(annotation)}`);
       unpostable.push(annotation);
     }
   });
+
+  const postable: ReviewComment[] = postableAnnotations.map(({ annotation, fingerprint, startLine, line }) => {
+    const displayCount = annotation.count === 1 ? '' : `(${annotation.count}x) `;
+    const details = `${displayCount}${formatLines(annotation)}, Rule: ${annotation.rule}, Level: ${annotation.level}, Category: ${
+      annotation.category
+    }`;
+    return {
+      body: `:warning: **TiCS: ${annotation.type} violation: ${annotation.msg}**\r\n${details}\r\n${createFingerprintMarker(fingerprint)}`,
+      path: annotation.path,
+      ...(startLine < line ? { start_line: startLine } : {}),
+      line: line
+    };
+  });
   Logger.Instance.info('Created review comments from annotations.');
-  return { postable: postable, unpostable: unpostable };
+  return {
+    postable: postable,
+    unpostable: unpostable,
+    fingerprints: groupedAnnotations.map((annotation, index) => ({
+      fingerprint: fingerprints[index],
+      path: annotation.path!,
+      line: annotation.line,
+      rule: annotation.rule
+    })),
+    ...(suppressed.length > 0 ? { suppressed: suppressed } : {})
+  };
+}
+
+/**
+ * Formats the line (or lines) of an annotation, e.g. "Line: 5" or "Lines: 5-7".
+ * @param annotation The annotation to format the lines of.
+ * @returns The lines as text.
+ */
+export function formatLines(annotation: Annotation): string {
+  return `${getEndLine(annotation) > annotation.line ? 'Lines' : 'Line'}: ${formatLineRange(annotation)}`;
+}
+
+/**
+ * Formats the range of lines of an annotation, e.g. "5" or "5-7".
+ * @param annotation The annotation to format the range of.
+ * @returns The range as text.
+ */
+export function formatLineRange(annotation: Annotation): string {
+  const endLine = getEndLine(annotation);
+  return endLine > annotation.line ? `${annotation.line}-${endLine}` : `${annotation.line}`;
+}
+
+/**
+ * Gets the last line of an annotation.
+ * @param annotation The annotation.
+ * @returns The last line, which is the line of the annotation if it does not span multiple lines.
+ */
+function getEndLine(annotation: Annotation): number {
+  return annotation.endLine !== undefined && annotation.endLine > annotation.line ? annotation.endLine : annotation.line;
 }
 
 /**
@@ -130,7 +225,7 @@ export async function createReviewComments(annotations: any[], changedFiles: any
  * @param annotations annotations returned by TiCS analyzer.
  * @returns sorted anotations.
  */
-function sortAnnotations(annotations: any[]) {
+function sortAnnotations(annotations: Annotation[]) {
   return annotations.sort((a, b) => {
     if (a.fullPath === b.fullPath) return a.line - b.line;
     return a.fullPath > b.fullPath ? 1 : -1;
@@ -143,14 +238,16 @@ function sortAnnotations(annotations: any[]) {
  * @param changedFiles List of files changed in the pull request.
  * @returns grouped annotations.
  */
-function groupAnnotations(annotations: any[], changedFiles: any[]) {
-  let groupedAnnotations: any[] = [];
+function groupAnnotations(annotations: Annotation[], changedFiles: any[]) {
+  const branchPrefix = getBranchPrefix();
+
+  let groupedAnnotations: Annotation[] = [];
   annotations.forEach(annotation => {
-    const file = changedFiles.find(c => annotation.fullPath.includes(c.filename));
+    const file = changedFiles.find(c => isAnnotationOfFile(annotation.fullPath, c.filename, branchPrefix));
     const index = findAnnotationInList(groupedAnnotations, annotation);
     if (index === -1) {
-      annotation.diffLines = file ? fetchDiffLines(file) : [];
-      annotation.path = file ? file.filename : annotation.fullPath.split('/').slice(4).join('/');
+      annotation.diffHunks = file ? parsePatch(file.patch) : [];
+      annotation.path = file ? file.filename : getAnnotationPath(annotation.fullPath, branchPrefix);
       groupedAnnotations.push(annotation);
     } else {
       if (groupedAnnotations[index].gateId === annotation.gateId) {
@@ -162,23 +259,46 @@ function groupAnnotations(annotations: any[], changedFiles: any[]) {
 }
 
 /**
- * Finds all lines that are shown in GitHub diff chunk.
- * @param file file to search the lines changed chunk for.
- * @returns List of all the lines in the diff chunk.
+ * Merges annotations of the same rule and message on adjacent or overlapping lines of a file,
+ * so they can be posted as a single multi-line review comment.
+ * @param annotations grouped annotations, sorted by file and line.
+ * @returns merged annotations.
  */
-function fetchDiffLines(file: any) {
-  const regex = /\+(\d+),(\d+)+/g;
-  let diffLines: number[] = [];
+function mergeAdjacentAnnotations(annotations: Annotation[]) {
+  let mergedAnnotations: Annotation[] = [];
+  annotations.forEach(annotation => {
+    const adjacent = mergedAnnotations.find(
+      a =>
+        a.fullPath === annotation.fullPath &&
+        a.type === annotation.type &&
+        a.rule === annotation.rule &&
+        a.msg === annotation.msg &&
+        annotation.line <= getEndLine(a) + 1
+    );
+    if (adjacent) {
+      adjacent.endLine = Math.max(getEndLine(adjacent), getEndLine(annotation));
+      adjacent.count += annotation.count;
+    } else {
+      // copied, as the annotations are also used outside of the review comments
+      mergedAnnotations.push({ ...annotation });
+    }
+  });
+  return mergedAnnotations;
+}
 
-  let match = regex.exec(file.patch);
-  while (match !== null) {
-    const startLine = parseInt(match[1]);
-    const amountOfLines = parseInt(match[2]);
-    diffLines = diffLines.concat(range(startLine, startLine + amountOfLines));
-    match = regex.exec(file.patch);
-  }
+/**
+ * Checks if an annotation belongs to a changed file. The path of the annotation in TiCS is relative to the
+ * branch directory, while the filename of the changed file is relative to the root of the checkout.
+ * @param fullPath Path of the annotation in TiCS.
+ * @param filename Filename of the changed file.
+ * @param branchPrefix Path of the branch directory relative to the root of the checkout.
+ * @returns Whether the annotation belongs to the changed file.
+ */
+function isAnnotationOfFile(fullPath: string, filename: string, branchPrefix: string) {
+  if (branchPrefix && !filename.startsWith(`${branchPrefix}/`)) return false;
 
-  return diffLines;
+  const branchPath = branchPrefix ? filename.substring(branchPrefix.length + 1) : filename;
+  return fullPath === branchPath || fullPath.endsWith(`/${branchPath}`);
 }
 
 /**
@@ -187,7 +307,7 @@ function fetchDiffLines(file: any) {
  * @param annotation Annotation to find.
  * @returns The index of the annotation found or -1
  */
-function findAnnotationInList(list: any[], annotation: any) {
+function findAnnotationInList(list: Annotation[], annotation: Annotation) {
   return list.findIndex(a => {
     return (
       a.fullPath === annotation.fullPath &&
@@ -196,7 +316,7 @@ function findAnnotationInList(list: any[], annotation: any) {
       a.rule === annotation.rule &&
       a.level === annotation.level &&
       a.category === annotation.category &&
-      a.message === annotation.message
+      a.msg === annotation.msg
     );
   });
 }
@@ -217,9 +337,168 @@ export function createUnpostableReviewCommentsSummary(unpostableReviewComments:
     } else if (previousPath !== reviewComment.path) {
       body += `</table><table><tr><th colspan='3'>${reviewComment.path}</th></tr>`;
     }
-    body += `<tr><td>:warning:</td><td><b>Line:</b> ${reviewComment.line} <b>Level:</b> ${reviewComment.level}<br><b>Category:</b> ${reviewComment.category}</td><td><b>${reviewComment.type} violation:</b> ${reviewComment.rule} <b>${reviewComment.displayCount}</b><br>${reviewComment.msg}</td></tr>`;
+    body += `<tr><td>:warning:</td><td><b>Line:</b> ${formatLineRange(reviewComment)} <b>Level:</b> ${reviewComment.level}<br><b>Category:</b> ${
+      reviewComment.category
+    }</td><td><b>${reviewComment.type} violation:</b> ${reviewComment.rule} <b>${reviewComment.displayCount}</b><br>${reviewComment.msg}</td></tr>`;
     previousPath = reviewComment.path;
   });
   body += '</table>';
   return generateExpandableAreaMarkdown(header, body);
 }
+
+/**
+ * Creates a summary of the number of annotations suppressed by each suppression of the suppressions file.
+ * @param suppressed Suppressions that matched annotations with the number of suppressed annotations.
+ * @returns Summary of the suppressed annotations.
+ */
+export function createSuppressedSummary(suppressed: SuppressedAnnotations[]): string {
+  const count = suppressed.reduce((total, entry) => total + entry.count, 0);
+  const headers = [['Suppression', 'Reason', 'Expires', 'Suppressed']];
+  const cells = suppressed.map(entry => [
+    `\`${formatSuppression(entry.suppression).replace(/\|/g, '\\|')}\``,
+    entry.suppression.reason ? entry.suppression.reason : '',
+    entry.suppression.expires ? entry.suppression.expires : '',
+    entry.count
+  ]);
+  return generateExpandableAreaMarkdown(
+    `:mute: ${count} violation(s) suppressed by ${ticsConfig.suppressionsFile}`,
+    generateTableMarkdown(headers, cells)
+  );
+}
+
+/**
+ * Creates a summary of the previous runs, including a hidden marker to find and update the summary with.
+ * @param history The runs to summarize, the last entry being the current run.
+ * @returns Summary of the previous runs.
+ */
+export function createRunHistorySummary(history: RunHistory[]): string {
+  const headers = [['Commit', 'Result', 'Time']];
+  const cells = history
+    .slice()
+    .reverse()
+    .map(run => [run.sha.substring(0, 7), generateStatusMarkdown(Status[run.passed ? 1 : 0], true), run.time]);
+
+  return (
+    generateExpandableAreaMarkdown('Run history', generateTableMarkdown(headers, cells)) +
+    `<!-- tics-github-action:history ${JSON.stringify(history)} -->`
+  );
+}
+
+/**
+ * Gets the run history from the hidden marker in a summary created by createRunHistorySummary.
+ * @param body Body of the summary.
+ * @returns The run history or undefined if the body does not contain the marker.
+ */
+export function getRunHistory(body: string): RunHistory[] | undefined {
+  const match = body.match(/<!-- tics-github-action:history (.*) -->/);
+  if (!match) return undefined;
+
+  try {
+    return JSON.parse(match[1]);
+  } catch (error: any) {
+    Logger.Instance.debug(`Could not parse the run history: ${error.message}`);
+    return [];
+  }
+}
+
+/**
+ * Creates the state of this run to compare the next run with.
+ * @param qualityGate Quality gate returned by TiCS.
+ * @param reviewComments TiCS annotations in the form of review comments.
+ * @returns The state of the run.
+ */
+export function createRunState(qualityGate: QualityGate, reviewComments: ReviewComments | undefined): RunState {
+  let conditions: ConditionValue[] = [];
+  qualityGate.gates.forEach(gate => {
+    gate.conditions.forEach((condition, index) => {
+      if (!condition.skipped) conditions.push({ gate: gate.name, index: index, message: condition.message, passed: condition.passed });
+    });
+  });
+
+  // too many annotations would not fit in the body of the review, in which case violations are not compared next run
+  const annotations = reviewComments && reviewComments.fingerprints ? reviewComments.fingerprints : undefined;
+  return { annotations: annotations && annotations.length <= maxStateAnnotations ? annotations : undefined, conditions: conditions };
+}
+
+/**
+ * Creates a summary of the differences with the previous run: the new and resolved violations and the conditions
+ * of which the value changed.
+ * @param previous State of the previous run.
+ * @param current State of this run.
+ * @returns Summary of the differences.
+ */
+export function createRunDeltaSummary(previous: RunState, current: RunState): string {
+  let summary = '';
+
+  // violations can only be compared if the annotations were retrieved in both runs
+  if (previous.annotations && current.annotations) {
+    const previousFingerprints = previous.annotations.map(annotation => annotation.fingerprint);
+    const currentFingerprints = current.annotations.map(annotation => annotation.fingerprint);
+    const added = current.annotations.filter(annotation => !previousFingerprints.includes(annotation.fingerprint));
+    const resolved = previous.annotations.filter(annotation => !currentFingerprints.includes(annotation.fingerprint));
+
+    if (added.length > 0) summary += createFingerprintsSummary(`:new: ${added.length} new violation(s) since the last run`, added);
+    if (resolved.length > 0)
+      summary += createFingerprintsSummary(`:white_check_mark: ${resolved.length} violation(s) fixed since the last run`, resolved);
+  }
+
+  const changed = current.conditions.filter(condition => {
+    const previousCondition = previous.conditions.find(c => c.gate === condition.gate && c.index === condition.index);
+    return previousCondition && (previousCondition.message !== condition.message || previousCondition.passed !== condition.passed);
+  });
+  if (changed.length > 0) {
+    const cells = changed.map(condition => {
+      const previousCondition = previous.conditions.find(c => c.gate === condition.gate && c.index === condition.index)!;
+      return [
+        condition.gate,
+        `${generateStatusMarkdown(Status[previousCondition.passed ? 1 : 0], false)}${previousCondition.message}`,
+        `${generateStatusMarkdown(Status[condition.passed ? 1 : 0], false)}${condition.message}`
+      ];
+    });
+    summary += generateExpandableAreaMarkdown(
+      `:arrows_counterclockwise: ${changed.length} condition(s) changed since the last run`,
+      generateTableMarkdown([['Gate', 'Last run', 'This run']], cells)
+    );
+  }
+
+  return `## Changes since the last run\n\n${summary ? summary : 'No new or fixed violations and no changed conditions since the last run.\n\n'}`;
+}
+
+/**
+ * Creates a list of violations by their location and rule.
+ * @param title Title of the list.
+ * @param annotations Fingerprints of the violations.
+ * @returns The list in an expandable area.
+ */
+function createFingerprintsSummary(title: string, annotations: AnnotationFingerprint[]) {
+  const shown = annotations.slice(0, maxDeltaViolations);
+  let list = shown.map(annotation => `- \`${annotation.path}\` line ${annotation.line}: ${annotation.rule}`).join('\n');
+  if (annotations.length > shown.length) list += `\n- and ${annotations.length - shown.length} more`;
+  return generateExpandableAreaMarkdown(title, `\n${list}\n\n`);
+}
+
+/**
+ * Creates a hidden marker containing the state of this run, to compare the next run with.
+ * @param state The state of this run.
+ * @returns The marker.
+ */
+export function createRunStateMarker(state: RunState): string {
+  return `<!-- tics-github-action:state ${JSON.stringify(state)} -->`;
+}
+
+/**
+ * Gets the state of a run from the hidden marker in a summary created by createRunStateMarker.
+ * @param body Body of the summary.
+ * @returns The state of the run or undefined if the body does not contain a (valid) marker.
+ */
+export function getRunState(body: string): RunState | undefined {
+  const match = body.match(/<!-- tics-github-action:state (.*) -->/);
+  if (!match) return undefined;
+
+  try {
+    return JSON.parse(match[1]);
+  } catch (error: any) {
+    Logger.Instance.debug(`Could not parse the state of the previous run: ${error.message}`);
+    return undefined;
+  }
+}
@@ -0,0 +1,198 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'canonical-path';
+import { ticsConfig } from '../configuration';
+import Logger from './logger';
+import { Annotation, SuppressedAnnotations, Suppression } from './interfaces';
+
+const suppressionKeys = ['rule', 'path', 'message', 'expires', 'reason'];
+
+let suppressions: Suppression[] = [];
+
+/**
+ * Loads the suppressions of the suppressionsFile. Suppressions that have expired are not applied and are reported as warning.
+ * The suppressionsFile is optional, if it does not exist no annotations are suppressed.
+ */
+export function loadSuppressions(): void {
+  suppressions = [];
+  if (!ticsConfig.suppressionsFile) return;
+
+  const path = resolve(process.env.GITHUB_WORKSPACE ? process.env.GITHUB_WORKSPACE : '', ticsConfig.suppressionsFile);
+  if (!existsSync(path)) return Logger.Instance.debug(`No suppressions file found at ${path}.`);
+
+  let fileSuppressions: Suppression[];
+  try {
+    fileSuppressions = parseSuppressions(parseYamlList(readFileSync(path, 'utf8')));
+  } catch (error: any) {
+    return Logger.Instance.warning(`Could not load the suppressions of ${ticsConfig.suppressionsFile}: ${error.message}`);
+  }
+
+  const today = new Date().toISOString().substring(0, 10);
+  suppressions = fileSuppressions.filter(suppression => {
+    if (!suppression.expires || suppression.expires >= today) return true;
+
+    Logger.Instance.warning(
+      `Suppression (${formatSuppression(suppression)}) of ${ticsConfig.suppressionsFile} expired on ${suppression.expires} and is no longer applied.`
+    );
+    return false;
+  });
+  Logger.Instance.debug(`Loaded ${suppressions.length} suppression(s) from ${ticsConfig.suppressionsFile}.`);
+}
+
+/**
+ * Removes the annotations that match a suppression.
+ * @param annotations Annotations of which the path is set.
+ * @returns The annotations that are not suppressed and the number of suppressed annotations per suppression that matched.
+ */
+export function applySuppressions(annotations: Annotation[]): { annotations: Annotation[]; suppressed: SuppressedAnnotations[] } {
+  let suppressed: SuppressedAnnotations[] = [];
+
+  const unsuppressed = annotations.filter(annotation => {
+    const suppression = suppressions.find(s => isSuppressed(annotation, s));
+    if (!suppression) return true;
+
+    Logger.Instance.debug(`Suppressed: ${JSON.stringify(annotation)}`);
+    const entry = suppressed.find(s => s.suppression === suppression);
+    if (entry) {
+      entry.count += annotation.count;
+    } else {
+      suppressed.push({ suppression: suppression, count: annotation.count });
+    }
+    return false;
+  });
+
+  return { annotations: unsuppressed, suppressed: suppressed };
+}
+
+/**
+ * Formats the conditions of a suppression as text.
+ * @param suppression The suppression to format.
+ * @returns The conditions, e.g. "rule: CS-1, path: src/**".
+ */
+export function formatSuppression(suppression: Suppression): string {
+  return ['rule', 'path', 'message']
+    .filter(key => suppression[key as keyof Suppression] !== undefined)
+    .map(key => `${key}: ${suppression[key as keyof Suppression]}`)
+    .join(', ');
+}
+
+/**
+ * Checks if an annotation matches a suppression, which is the case if it matches all conditions of the suppression.
+ * @param annotation The annotation, of which the path is set.
+ * @param suppression The suppression.
+ * @returns true if the annotation is suppressed.
+ */
+function isSuppressed(annotation: Annotation, suppression: Suppression): boolean {
+  if (suppression.rule !== undefined && suppression.rule !== annotation.rule) return false;
+  if (suppression.path !== undefined && !globToRegExp(suppression.path).test(annotation.path ? annotation.path : '')) return false;
+  if (suppression.message !== undefined && !new RegExp(suppression.message).test(annotation.msg)) return false;
+  return true;
+}
+
+/**
+ * Converts a path glob to a regular expression matching the full path. A "*" matches within a directory,
+ * "**" matches across directories and "?" matches a single character.
+ * @param glob The glob, e.g. "src/generated/**" or "**\/*.test.ts".
+ * @returns The regular expression.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    if (glob.startsWith('**/', i)) {
+      // "**/" also matches no directory at all
+      pattern += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      pattern += '.*';
+      i++;
+    } else if (glob[i] === '*') {
+      pattern += '[^/]*';
+    } else if (glob[i] === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += glob[i].replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Parses the content of a suppressions file.
+ * @param content Parsed content of the file, a list of suppressions.
+ * @returns The suppressions.
+ * @throws Error naming the first invalid suppression.
+ */
+function parseSuppressions(content: Record<string, string>[]): Suppression[] {
+  return content.map((suppression, index) => {
+    const unknownKey = Object.keys(suppression).find(key => !suppressionKeys.includes(key));
+    if (unknownKey) throw Error(`suppression ${index} has an unknown key ${unknownKey}.`);
+    if (suppression.rule === undefined && suppression.path === undefined && suppression.message === undefined) {
+      throw Error(`suppression ${index} should have a rule, path or message.`);
+    }
+    if (suppression.message !== undefined) {
+      try {
+        new RegExp(suppression.message);
+      } catch {
+        throw Error(`the message of suppression ${index} should be a regular expression.`);
+      }
+    }
+    if (suppression.expires !== undefined && (!/^\d{4}-\d{2}-\d{2}$/.test(suppression.expires) || isNaN(Date.parse(suppression.expires)))) {
+      throw Error(`the expiry date of suppression ${index} should be formatted as YYYY-MM-DD.`);
+    }
+
+    return {
+      rule: suppression.rule,
+      path: suppression.path,
+      message: suppression.message,
+      expires: suppression.expires,
+      reason: suppression.reason
+    };
+  });
+}
+
+/**
+ * Parses the subset of YAML used by the suppressions file: a list of mappings with a "key: value" per line,
+ * of which the values are plain or quoted strings. Comments and empty lines are ignored.
+ * @param content Content of the file.
+ * @returns The mappings of the list.
+ * @throws Error naming the first line that is not supported.
+ */
+function parseYamlList(content: string): Record<string, string>[] {
+  let items: Record<string, string>[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '' || line.trim().startsWith('#')) return;
+
+    const match = line.match(/^(-\s+|\s+)?([A-Za-z]+):(?:\s+(.*))?$/);
+    if (line.trim() === '-') {
+      items.push({});
+    } else if (match && match[1] !== undefined && (match[1].startsWith('-') || items.length > 0)) {
+      if (match[1].startsWith('-')) items.push({});
+      items[items.length - 1][match[2]] = parseYamlValue(match[3] ? match[3] : '', index + 1);
+    } else {
+      throw Error(`line ${index + 1} should be a list item or a "key: value" of a list item.`);
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Parses a plain, single-quoted or double-quoted YAML string, followed by an optional comment.
+ * @param value The value as written in the file.
+ * @param lineNumber Number of the line of the value.
+ * @returns The string.
+ * @throws Error if a quoted string is not closed.
+ */
+function parseYamlValue(value: string, lineNumber: number): string {
+  if (value.startsWith('"')) {
+    const match = value.match(/^"((?:[^"\\]|\\.)*)"\s*(?:#.*)?$/);
+    if (!match) throw Error(`the string on line ${lineNumber} is not closed.`);
+    return JSON.parse(`"${match[1]}"`);
+  }
+  if (value.startsWith("'")) {
+    const match = value.match(/^'((?:[^']|'')*)'\s*(?:#.*)?$/);
+    if (!match) throw Error(`the string on line ${lineNumber} is not closed.`);
+    return match[1].replace(/''/g, "'");
+  }
+  return value.replace(/\s+#.*$/, '').trim();
+}
@@ -0,0 +1,90 @@
+import { tmpdir } from 'os';
+import { join } from 'canonical-path';
+import { readFileSync, writeFileSync } from 'fs';
+import { ConnectionOptions, rootCertificates } from 'tls';
+import ProxyAgent from 'proxy-agent';
+
+/**
+ * Checks if the caBundle input contains the certificates itself instead of a path to them.
+ * @param caBundle The caBundle input.
+ * @returns true if the input is an inline PEM bundle.
+ */
+function isInlineCaBundle(caBundle: string): boolean {
+  return caBundle.includes('-----BEGIN CERTIFICATE-----');
+}
+
+/**
+ * Reads the certificates of the caBundle input.
+ * @param caBundle The caBundle input, either a PEM bundle or a path to a PEM file.
+ * @returns The PEM bundle, or undefined if no bundle is given.
+ */
+export function readCaBundle(caBundle: string): string | undefined {
+  if (!caBundle) return undefined;
+  if (isInlineCaBundle(caBundle)) return caBundle;
+
+  try {
+    return readFileSync(caBundle, 'utf8');
+  } catch (error: any) {
+    throw Error(`Could not read the caBundle: ${error.message}`);
+  }
+}
+
+/**
+ * Returns the path of a file containing the certificates of the caBundle input, for tools that only accept a file.
+ * An inline bundle is written to a file in the temp directory of the runner.
+ * @param caBundle The caBundle input, either a PEM bundle or a path to a PEM file.
+ * @returns Path of the PEM file, or undefined if no bundle is given.
+ */
+export function getCaBundlePath(caBundle: string): string | undefined {
+  if (!caBundle) return undefined;
+  if (!isInlineCaBundle(caBundle)) return caBundle;
+
+  const caBundlePath = join(process.env.RUNNER_TEMP ? process.env.RUNNER_TEMP : tmpdir(), 'tics-ca-bundle.pem');
+  writeFileSync(caBundlePath, caBundle);
+  return caBundlePath;
+}
+
+/**
+ * Checks if certificates should not be verified at all. This is the case for trustStrategy all, and for
+ * trustStrategy self-signed when no caBundle is given to verify the self-signed certificate with.
+ * @param trustStrategy The trustStrategy input.
+ * @param caBundle The caBundle input.
+ * @returns true if certificate verification should be skipped.
+ */
+export function skipsCertificateVerification(trustStrategy: string, caBundle: string): boolean {
+  return trustStrategy === 'all' || (trustStrategy === 'self-signed' && !caBundle);
+}
+
+/**
+ * Creates the TLS options for connections to the TiCS viewer.
+ * @param caBundle The caBundle input.
+ * @param trustStrategy The trustStrategy input.
+ * @param hostnameVerification The hostnameVerification input.
+ * @returns The TLS options.
+ */
+export function getTlsOptions(caBundle: string, trustStrategy: string, hostnameVerification: string): ConnectionOptions {
+  let options: ConnectionOptions = {};
+
+  const ca = readCaBundle(caBundle);
+  // setting ca replaces the trusted certificates, so the certificates of Node itself are kept
+  if (ca) options.ca = [...rootCertificates, ca];
+
+  if (skipsCertificateVerification(trustStrategy, caBundle)) options.rejectUnauthorized = false;
+  if (hostnameVerification === '0' || hostnameVerification === 'false') options.checkServerIdentity = () => undefined;
+
+  return options;
+}
+
+/**
+ * Creates the agent used for requests to the TiCS viewer, which applies the TLS options to those requests only.
+ * @param tlsOptions The TLS options for connections to the viewer.
+ * @returns The agent.
+ */
+export function createViewerAgent(tlsOptions: ConnectionOptions) {
+  const agent = new ProxyAgent();
+  const addRequest = agent.addRequest.bind(agent);
+
+  // ProxyAgent does not pass its own options on to the agent it delegates to, so they are added to each request
+  agent.addRequest = (request, options) => addRequest(request, { ...options, ...tlsOptions } as typeof options);
+  return agent;
+}
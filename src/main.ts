@@ -1,18 +1,29 @@
-import { existsSync } from 'fs';
 import { postErrorComment } from './github/posting/comment';
-import { githubConfig, ticsConfig } from './configuration';
+import { githubConfig, requestInit, ticsConfig } from './configuration';
 import { changedFilesToFile, getChangedFiles } from './github/calling/pulls';
 import Logger from './helper/logger';
-import { runTicsAnalyzer } from './tics/analyzer';
-import { cliSummary } from './tics/api_helper';
+import { runTicsAnalyzer, runTicsQServer } from './tics/analyzer';
+import { cliSummary, qualityGateCliSummary } from './tics/api_helper';
 import { getAnalyzedFiles, getAnnotations, getQualityGate, getViewerVersion } from './tics/fetcher';
 import { postNothingAnalyzedReview, postReview } from './github/posting/review';
-import { createReviewComments } from './helper/summary';
-import { deletePreviousReviewComments } from './github/posting/annotations';
+import { createErrorSummary, createReviewComments } from './helper/summary';
+import { deletePreviousReviewComments, getNewReviewComments } from './github/posting/annotations';
 import { getPostedReviewComments } from './github/calling/annotations';
-import { Events } from './helper/enums';
+import { postErrorJobSummary, postJobSummary, postQualityGateJobSummary } from './github/posting/job_summary';
+import { postCheckRun, postNothingAnalyzedCheckRun } from './github/posting/check';
+import { setResultOutputs } from './github/posting/outputs';
+import { Events, Outcome } from './helper/enums';
+import { redact, registerSecrets } from './helper/redact';
+import { loadHints } from './tics/hints';
+import { loadSuppressions } from './helper/suppressions';
+import { defaultPolicy, evaluatePolicy, loadPolicy } from './tics/policy';
 import { satisfies } from 'compare-versions';
 import { exportVariable } from '@actions/core';
+import { exportSarif } from './helper/sarif';
+import { findGitRoot } from './helper/git';
+import { createViewerAgent, getTlsOptions } from './helper/tls';
+import { isTicsApiError, TicsAuthError, TicsRedirectError } from './tics/errors';
+import { Analysis, PolicyDecision } from './helper/interfaces';
 
 run();
 
@@ -23,7 +34,11 @@ export async function run() {
   const message = await meetsPrerequisites();
   if (message) return Logger.Instance.exit(message);
 
-  await main();
+  if (ticsConfig.mode === 'qserver') {
+    await qServerAnalysis();
+  } else {
+    await main();
+  }
 }
 
 async function main() {
@@ -34,36 +49,138 @@ async function main() {
     const changedFilesFilePath = changedFilesToFile(changedFiles);
     const analysis = await runTicsAnalyzer(changedFilesFilePath);
 
-    if (!analysis.explorerUrl) {
-      if (!analysis.completed) {
-        postErrorComment(analysis);
+    // a timed out run is not reported on, even if TiCS already printed the Explorer URL
+    if (!analysis.explorerUrl || analysis.timeout) {
+      // the policy decides the outcome of runs without quality gate, but a timed out run always fails
+      const decision = analysis.timeout ? undefined : evaluatePolicy(analysis);
+      if (decision && decision.outcome === Outcome.FAIL) addPolicyError(analysis, decision);
+
+      if (decision && decision.outcome !== Outcome.FAIL) {
+        await postPolicyOutcome(decision);
+      } else if (!analysis.completed) {
+        await postErrorReport(analysis);
+        await postErrorJobSummary(analysis);
         Logger.Instance.setFailed('Failed to run TiCS Github Action.');
-      } else if (analysis.warningList.find(w => w.includes('[WARNING 5057]'))) {
-        postNothingAnalyzedReview('No changed files applicable for TiCS analysis quality gating.', Events.APPROVE);
       } else {
         Logger.Instance.setFailed('Failed to run TiCS Github Action.');
-        analysis.errorList.push('Explorer URL not returned from TiCS analysis.');
+        analysis.diagnostics.push({ severity: 'error', message: 'Explorer URL not returned from TiCS analysis.' });
+        // a completed run is not commented on, but a required TICS check should not stay pending
+        if (ticsConfig.checkRun) await postNothingAnalyzedCheckRun(createErrorSummary(analysis.diagnostics), 'failure');
+        await postErrorJobSummary(analysis);
       }
       cliSummary(analysis);
       return;
     }
 
-    const analyzedFiles = await getAnalyzedFiles(analysis.explorerUrl);
-    const qualityGate = await getQualityGate(analysis.explorerUrl);
+    let analyzedFiles: string[] = [];
+    try {
+      analyzedFiles = await getAnalyzedFiles(analysis.explorerUrl);
+    } catch (error: any) {
+      if (isConfigurationError(error)) return await failOnViewerError(analysis, error);
+      Logger.Instance.warning(`${error.message} Continuing without the list of analyzed files.`);
+    }
+
+    let qualityGate;
+    try {
+      qualityGate = await getQualityGate(analysis.explorerUrl);
+    } catch (error: any) {
+      return await failOnViewerError(analysis, error);
+    }
+
+    let annotations;
     let reviewComments;
+    // review comments that still apply are not posted again
+    let newReviewComments;
+
+    if (ticsConfig.postAnnotations || ticsConfig.exportSarif) {
+      try {
+        annotations = await getAnnotations(qualityGate.annotationsApiV1Links);
+      } catch (error: any) {
+        if (isConfigurationError(error)) return await failOnViewerError(analysis, error);
+        Logger.Instance.warning(`${error.message} Continuing without annotations.`);
+      }
+
+      if (ticsConfig.exportSarif) {
+        exportSarif(annotations ? annotations : [], qualityGate);
+      }
+
+      if (ticsConfig.postAnnotations) {
+        // annotations of a check run are attached to the check run itself, without annotations the (empty) fingerprints
+        // are still created so the next run knows all violations were fixed
+        if (!ticsConfig.checkRun && annotations) {
+          reviewComments = await createReviewComments(annotations, changedFiles);
+        }
+        newReviewComments = reviewComments;
+        // without annotations it is unknown which review comments still apply, so they are all kept
+        const previousReviewComments = annotations ? await getPostedReviewComments() : undefined;
+        if (previousReviewComments && previousReviewComments.length > 0) {
+          await deletePreviousReviewComments(previousReviewComments, reviewComments ? reviewComments.postable : []);
+          if (reviewComments)
+            newReviewComments = { ...reviewComments, postable: getNewReviewComments(reviewComments.postable, previousReviewComments) };
+        }
+      }
+    }
+
+    if (ticsConfig.checkRun) {
+      await postCheckRun(analysis, analyzedFiles, qualityGate, ticsConfig.postAnnotations ? annotations : undefined);
+    } else {
+      await postReview(analysis, analyzedFiles, qualityGate, newReviewComments);
+    }
+
+    await postJobSummary(analysis, analyzedFiles, qualityGate, reviewComments);
+    setResultOutputs(analysis, analyzedFiles, qualityGate, reviewComments, annotations);
+
+    if (!qualityGate.passed) Logger.Instance.setFailed(qualityGate.message);
+
+    cliSummary(analysis);
+  } catch (error: any) {
+    Logger.Instance.error('Failed to run TiCS Github Action');
+    Logger.Instance.exit(error.message);
+  }
+}
 
-    if (ticsConfig.postAnnotations) {
-      const annotations = await getAnnotations(qualityGate.annotationsApiV1Links);
-      if (annotations && annotations.length > 0) {
-        reviewComments = await createReviewComments(annotations, changedFiles);
+/**
+ * Runs TICSQServer to update the baseline of the project and reports the resulting quality gate.
+ */
+async function qServerAnalysis() {
+  try {
+    const analysis = await runTicsQServer();
+
+    if (!analysis.completed) {
+      // there is no pull request to report the outcome on in qserver mode, the policy only decides if the action fails
+      const decision = analysis.timeout ? undefined : evaluatePolicy(analysis);
+      if (decision && decision.outcome !== Outcome.FAIL) {
+        Logger.Instance.info(getPolicyOutcomeMessage(decision));
+      } else {
+        if (decision) addPolicyError(analysis, decision);
+        await postErrorJobSummary(analysis);
+        Logger.Instance.setFailed('Failed to run TiCS Github Action.');
       }
-      const previousReviewComments = await getPostedReviewComments();
-      if (previousReviewComments && previousReviewComments.length > 0) {
-        await deletePreviousReviewComments(previousReviewComments);
+      cliSummary(analysis);
+      return;
+    }
+
+    let qualityGate;
+    try {
+      qualityGate = await getQualityGate();
+    } catch (error: any) {
+      return await failOnViewerError(analysis, error);
+    }
+    qualityGateCliSummary(qualityGate);
+    await postQualityGateJobSummary(qualityGate);
+
+    let annotations;
+    if (ticsConfig.exportSarif) {
+      try {
+        annotations = await getAnnotations(qualityGate.annotationsApiV1Links);
+      } catch (error: any) {
+        if (isConfigurationError(error)) return await failOnViewerError(analysis, error);
+        Logger.Instance.warning(`${error.message} Continuing without annotations.`);
       }
+      exportSarif(annotations ? annotations : [], qualityGate);
     }
 
-    await postReview(analysis, analyzedFiles, qualityGate, reviewComments);
+    setResultOutputs(analysis, [], qualityGate, undefined, annotations);
 
     if (!qualityGate.passed) Logger.Instance.setFailed(qualityGate.message);
 
@@ -74,6 +191,79 @@ async function main() {
   }
 }
 
+/**
+ * Reports the outcome decided by the policy for a run without quality gate on the pull request.
+ * @param decision the decision of the policy, which is not to fail.
+ */
+async function postPolicyOutcome(decision: PolicyDecision) {
+  const message = getPolicyOutcomeMessage(decision);
+  Logger.Instance.info(message);
+
+  if (ticsConfig.checkRun) {
+    await postNothingAnalyzedCheckRun(message, decision.outcome === Outcome.APPROVE ? 'success' : 'neutral');
+  } else if (decision.outcome !== Outcome.NEUTRAL) {
+    await postNothingAnalyzedReview(message, decision.outcome === Outcome.APPROVE ? Events.APPROVE : Events.COMMENT);
+  }
+}
+
+/**
+ * Creates the message explaining the outcome decided by the policy.
+ * @param decision the decision of the policy.
+ * @returns the message.
+ */
+function getPolicyOutcomeMessage(decision: PolicyDecision) {
+  // the default policy keeps the message of the action from before the policy was configurable
+  if (decision.rule === defaultPolicy) return 'No changed files applicable for TiCS analysis quality gating.';
+  // the reason can contain the output of TiCS, which is posted on the pull request
+  return `No quality gate to report: ${redact(decision.reason)}. The outcome is ${decision.outcome} according to the policy rule "${decision.rule}".`;
+}
+
+/**
+ * Adds the reason of a run that fails because of the policy to the errors of the analysis.
+ * @param analysis the output of the TiCS analysis run.
+ * @param decision the decision of the policy to fail.
+ */
+function addPolicyError(analysis: Analysis, decision: PolicyDecision) {
+  analysis.diagnostics.push({ severity: 'error', message: `${decision.reason} fails the run according to the policy rule "${decision.rule}".` });
+}
+
+/**
+ * Reports an error of the TiCS viewer that prevents reporting the results of the analysis and fails the action.
+ * @param analysis the output of the TiCS analysis run.
+ * @param error the error thrown while retrieving the results from the viewer.
+ */
+async function failOnViewerError(analysis: Analysis, error: any) {
+  analysis.diagnostics.push({ severity: 'error', message: error.message });
+  // there is no pull request to report on in qserver mode
+  if (ticsConfig.mode !== 'qserver') await postErrorReport(analysis);
+  await postErrorJobSummary(analysis);
+  Logger.Instance.setFailed('Failed to run TiCS Github Action.');
+  cliSummary(analysis);
+}
+
+/**
+ * Reports the errors of a failed run on the pull request: as a failed check run if checkRun is set, so a required
+ * TICS check does not stay pending, or as a comment otherwise.
+ * @param analysis the output of the TiCS analysis run.
+ */
+async function postErrorReport(analysis: Analysis) {
+  if (ticsConfig.checkRun) {
+    await postNothingAnalyzedCheckRun(createErrorSummary(analysis.diagnostics), 'failure');
+  } else {
+    postErrorComment(analysis);
+  }
+}
+
+/**
+ * Checks if an error of the viewer is caused by the configuration of the action, in which case retrieving other
+ * results from the viewer will not succeed either.
+ * @param error the error thrown while retrieving results from the viewer.
+ * @returns true if the error is an authentication or redirect error.
+ */
+function isConfigurationError(error: any) {
+  return isTicsApiError(error, TicsAuthError, TicsRedirectError);
+}
+
 /**
  * Configure the action before running the analysis.
  */
@@ -83,6 +273,10 @@ export function configure() {
     if (githubConfig.debugger) Logger.Instance.warning(warning.message.toString());
   });
 
+  registerSecrets();
+  loadHints();
+  loadSuppressions();
+
   // set ticsAuthToken
   if (ticsConfig.ticsAuthToken) {
     exportVariable('TICSAUTHTOKEN', ticsConfig.ticsAuthToken);
@@ -93,7 +287,6 @@ export function configure() {
     exportVariable('TICSHOSTNAMEVERIFICATION', ticsConfig.hostnameVerification);
 
     if (ticsConfig.hostnameVerification === '0' || ticsConfig.hostnameVerification === 'false') {
-      exportVariable('NODE_TLS_REJECT_UNAUTHORIZED', 0);
       Logger.Instance.debug('Hostname Verification disabled');
     }
   }
@@ -103,9 +296,11 @@ export function configure() {
     exportVariable('TICSTRUSTSTRATEGY', ticsConfig.trustStrategy);
 
     if (ticsConfig.trustStrategy === 'self-signed' || ticsConfig.trustStrategy === 'all') {
-      exportVariable('NODE_TLS_REJECT_UNAUTHORIZED', 0);
       Logger.Instance.debug(`Trust strategy set to ${ticsConfig.trustStrategy}`);
     }
+    if (ticsConfig.trustStrategy === 'self-signed' && !ticsConfig.caBundle) {
+      Logger.Instance.warning('Certificates of the TiCS viewer are not verified, set caBundle to verify self-signed certificates instead.');
+    }
   }
 }
 
@@ -117,10 +312,52 @@ export function configure() {
 async function meetsPrerequisites() {
   let message;
 
-  let viewerVersion = await getViewerVersion();
+  let policyError;
+  try {
+    loadPolicy();
+  } catch (error: any) {
+    policyError = error.message;
+  }
 
-  if (githubConfig.eventName !== 'pull_request') {
+  let tlsError;
+  try {
+    requestInit.agent = createViewerAgent(getTlsOptions(ticsConfig.caBundle, ticsConfig.trustStrategy, ticsConfig.hostnameVerification));
+  } catch (error: any) {
+    tlsError = error.message;
+  }
+
+  // the viewer version is retrieved with retries, which needs a valid retryCount and retryDelay
+  const inputError = getNumericInputError();
+
+  let viewerVersion;
+  let viewerError;
+  try {
+    if (!inputError && !tlsError) viewerVersion = await getViewerVersion();
+  } catch (error: any) {
+    viewerError = error.message;
+  }
+
+  const qServerMode = ticsConfig.mode === 'qserver';
+  const baselineBranch = ticsConfig.branchName ? ticsConfig.branchName : githubConfig.defaultBranch;
+
+  if (ticsConfig.mode && ticsConfig.mode !== 'client' && !qServerMode) {
+    message = `Mode ${ticsConfig.mode} is not supported. Options are client or qserver.`;
+  } else if (!qServerMode && githubConfig.eventName !== 'pull_request') {
     message = 'This action can only run on pull requests.';
+  } else if (qServerMode && githubConfig.eventName !== 'push') {
+    message = 'This action can only run on push events in qserver mode.';
+  } else if (qServerMode && githubConfig.refname !== baselineBranch) {
+    message = `This action can only run on pushes to ${baselineBranch} in qserver mode. Found branch ${githubConfig.refname}.`;
+  } else if (qServerMode && ticsConfig.projectName === 'auto') {
+    message = 'Project name auto is not supported in qserver mode.';
+  } else if (policyError) {
+    message = `Invalid policy: ${policyError}`;
+  } else if (inputError) {
+    message = inputError;
+  } else if (tlsError) {
+    message = tlsError;
+  } else if (!viewerVersion) {
+    message = viewerError;
   } else if (!satisfies(viewerVersion.version, '>=2022.4.0')) {
     message = `Minimum required TiCS Viewer version is 2022.4. Found version ${viewerVersion.version}.`;
   } else if (!isCheckedOut()) {
@@ -131,12 +368,33 @@ async function meetsPrerequisites() {
 }
 
 /**
- * Checks if a .git directory exists to see if a checkout has been performed.
+ * Checks the numeric inputs, as a value that is not a number would make requests to the viewer retry endlessly without delay
+ * or silently disable the analysis timeout.
+ * @returns Message naming the first invalid input, or undefined if the inputs are valid.
+ */
+function getNumericInputError() {
+  if (!isNonNegativeInteger(ticsConfig.retryCount)) return 'Input retryCount should be a whole number of 0 or more.';
+  if (!isNonNegativeInteger(ticsConfig.retryDelay)) return 'Input retryDelay should be a whole number of seconds of 0 or more.';
+  if (!(ticsConfig.analysisTimeout >= 0)) return 'Input analysisTimeout should be a number of minutes of 0 or more.';
+  return undefined;
+}
+
+/**
+ * Checks if a value is a whole number of 0 or more.
+ * @param value the value to check.
+ * @returns true if the value is a non-negative integer.
+ */
+function isNonNegativeInteger(value: number) {
+  return Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Checks if a .git directory exists in the branch directory (or one of its parents) to see if a checkout has been performed.
  * @returns Boolean value if the folder is found or not.
  */
 function isCheckedOut() {
-  if (!existsSync('.git')) {
-    Logger.Instance.error('No git checkout found');
+  if (findGitRoot() === undefined) {
+    Logger.Instance.error(`No git checkout found in ${githubConfig.branchdir}`);
     return false;
   }
   return true;
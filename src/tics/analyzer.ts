@@ -1,13 +1,30 @@
-import { exec } from '@actions/exec';
 import { baseUrl, githubConfig, ticsConfig, viewerUrl } from '../configuration';
 import Logger from '../helper/logger';
+import { splitArguments } from '../helper/arguments';
+import { Analysis, AnalysisPhase, AnalysisTimeout, Diagnostic } from '../helper/interfaces';
+import { getProcessOutput, ProcessTimeoutError, runProcess } from '../helper/process';
+import { redact } from '../helper/redact';
+import { getCaBundlePath, skipsCertificateVerification } from '../helper/tls';
 import { getInstallTicsApiUrl, httpRequest } from './api_helper';
+import { createLineBuffer, formatDiagnosticCode, parseDiagnostic } from './diagnostics';
+import { findHint, formatHint } from './hints';
+import { getInstallationCacheDirectory, restoreInstallation, saveInstallation } from './install_cache';
 
-let errorList: string[] = [];
-let warningList: string[] = [];
+let diagnostics: Diagnostic[] = [];
 let explorerUrl: string | undefined;
 let statusCode: number;
 let completed: boolean;
+let timeout: AnalysisTimeout | undefined;
+let phase: AnalysisPhase;
+let deadline: number | undefined;
+
+const installUrlVariable = 'TICS_INSTALL_URL';
+const caBundleVariable = 'TICS_CA_BUNDLE';
+const environmentMarker = '=== tics-github-action environment ===';
+// variables set by the shell itself that should not be copied to the environment of the action
+const ignoredVariables = ['_', 'SHLVL', 'PWD', 'OLDPWD', installUrlVariable, caBundleVariable];
+// TiCS reports when it starts sending the results of the analysis to the viewer
+const uploadPattern = /\b(uploading|sending|storing)\b.*\b(results?|viewer|database)\b/i;
 
 /**
  * Runs TiCS based on the configuration set in a workflow.
@@ -16,88 +33,238 @@ let completed: boolean;
 export async function runTicsAnalyzer(fileListPath: string) {
   Logger.Instance.header(`Analyzing new pull request for project ${ticsConfig.projectName}`);
 
-  const command = await buildRunCommand(fileListPath);
+  return runTics('TICS', () => getTicsCommand(fileListPath));
+}
+
+/**
+ * Runs TICSQServer based on the configuration set in a workflow, updating the baseline of the project.
+ */
+export async function runTicsQServer() {
+  Logger.Instance.header(`Analyzing baseline for project ${ticsConfig.projectName}`);
+
+  return runTics('TICSQServer', () => getTicsQServerCommand());
+}
+
+/**
+ * Runs (and optionally installs) TiCS with the given program and arguments.
+ * @param program The TiCS program to run.
+ * @param getArgs Builds the arguments to pass to the program.
+ * @returns The analysis of the run.
+ */
+async function runTics(program: string, getArgs: () => string[]): Promise<Analysis> {
+  deadline = ticsConfig.analysisTimeout > 0 ? Date.now() + ticsConfig.analysisTimeout * 60000 : undefined;
+  timeout = undefined;
+  diagnostics = [];
+  // stdout and stderr are buffered separately, so their lines do not get mixed up
+  const stdoutLines = createLineBuffer(findInLine);
+  const stderrLines = createLineBuffer(findInLine);
 
-  Logger.Instance.header('Running TiCS');
-  Logger.Instance.debug(`With command: ${command}`);
   try {
-    statusCode = await exec(command, [], {
-      silent: true,
+    const args = getArgs();
+    if (ticsConfig.installTics) {
+      phase = 'install';
+      await installTics();
+    }
+
+    phase = 'analysis';
+    Logger.Instance.header('Running TiCS');
+    Logger.Instance.debug(`With command: ${program} ${JSON.stringify(args)}`);
+    statusCode = await runProcess(program, args, {
+      cwd: githubConfig.branchdir ? githubConfig.branchdir : undefined,
+      timeout: getRemainingTime(),
       listeners: {
         stdout(data: Buffer) {
-          process.stdout.write(data.toString());
-          findInStdOutOrErr(data.toString());
+          process.stdout.write(redact(data.toString()));
+          stdoutLines.write(data.toString());
         },
         stderr(data: Buffer) {
-          process.stdout.write(data.toString());
-          findInStdOutOrErr(data.toString());
+          process.stdout.write(redact(data.toString()));
+          stderrLines.write(data.toString());
         }
       }
     });
-    completed = true;
+    completed = statusCode === 0;
+    if (!completed) Logger.Instance.debug(`${program} failed with exit code ${statusCode}.`);
   } catch (error: any) {
+    if (error instanceof ProcessTimeoutError) {
+      timeout = { phase: phase, minutes: ticsConfig.analysisTimeout };
+      diagnostics.push({
+        severity: 'error',
+        message: `TiCS timed out during the ${phase} phase, as it did not finish within the analysisTimeout of ${ticsConfig.analysisTimeout} minute(s).`
+      });
+    } else if (error.code === 'ENOENT') {
+      diagnostics.push({
+        severity: 'error',
+        message: `Could not run ${program}, as it is not found on the PATH. Install TiCS on the runner or set installTics to true.`
+      });
+    } else {
+      // the error is not part of the output of TiCS, so it is added to explain why the run failed
+      diagnostics.push({ severity: 'error', message: error.message });
+    }
     Logger.Instance.debug(error.message);
     completed = false;
     statusCode = -1;
   } finally {
+    stdoutLines.flush();
+    stderrLines.flush();
     return {
       completed: completed,
       statusCode: statusCode,
       explorerUrl: explorerUrl,
-      errorList: errorList,
-      warningList: warningList
+      diagnostics: diagnostics,
+      timeout: timeout
     };
   }
 }
 
 /**
- * Build the command to run (and optionally install) TiCS.
- * @param fileListPath Path to changedFiles.txt.
- * @returns Command to run.
+ * Returns the time left before the analysisTimeout is reached.
+ * @returns The remaining time in milliseconds, or undefined if there is no analysisTimeout.
  */
-async function buildRunCommand(fileListPath: string) {
-  if (githubConfig.runnerOS === 'Linux') {
-    return `/bin/bash -c "${await getInstallTics()} ${getTicsCommand(fileListPath)}"`;
-  }
-  return `powershell "${await getInstallTics()}; if ($?) {${getTicsCommand(fileListPath)}}"`;
+function getRemainingTime() {
+  // a timeout of 0 means no limit to runProcess, so at least a millisecond is returned once the deadline has passed
+  return deadline ? Math.max(deadline - Date.now(), 1) : undefined;
 }
 
 /**
- * Get the command to install TiCS with.
+ * Installs TiCS by running the install script of the TiCS viewer. The install script sets up the environment
+ * (e.g. PATH) of the shell it runs in, so the resulting environment is captured and applied to this process.
+ * On self-hosted runners the installation is restored from the tool cache if it was installed before.
  */
-async function getInstallTics() {
-  if (!ticsConfig.installTics) return '';
+async function installTics() {
+  const cacheDirectory = await getInstallationCacheDirectory();
+  if (cacheDirectory) {
+    const cachedEnvironment = restoreInstallation(cacheDirectory);
+    if (cachedEnvironment) return applyEnvironment(cachedEnvironment);
+  }
 
   const installTicsUrl = await retrieveInstallTics(githubConfig.runnerOS.toLowerCase());
 
+  Logger.Instance.header('Installing TiCS');
+  const caBundlePath = getCaBundlePath(ticsConfig.caBundle);
+  const [program, args] = getInstallTicsCommand(caBundlePath);
+
+  let output;
+  try {
+    // the url and the CA bundle are passed through the environment so they are never interpreted by the shell
+    output = await getProcessOutput(program, args, {
+      env: {
+        ...(process.env as { [key: string]: string }),
+        [installUrlVariable]: installTicsUrl ? installTicsUrl : '',
+        ...(caBundlePath ? { [caBundleVariable]: caBundlePath } : {})
+      },
+      timeout: getRemainingTime()
+    });
+  } catch (error: any) {
+    Logger.Instance.error(`Failed to install TiCS: ${error.message}`);
+    // a timeout is rethrown as is, so it is reported as such
+    if (error instanceof ProcessTimeoutError) throw error;
+    throw Error(`Failed to install TiCS: ${error.message}`, { cause: error });
+  }
+  process.stdout.write(redact(output.stderr));
+
+  const markerIndex = output.stdout.lastIndexOf(environmentMarker);
+  if (markerIndex === -1) throw Error('Could not retrieve the environment after installing TiCS.');
+  process.stdout.write(redact(output.stdout.substring(0, markerIndex)));
+
+  const environment = parseEnvironment(output.stdout.substring(markerIndex + environmentMarker.length));
+  let changes: { [key: string]: string } = {};
+  Object.keys(environment).forEach(key => {
+    if (ignoredVariables.includes(key) || process.env[key] === environment[key]) return;
+    changes[key] = environment[key];
+  });
+
+  if (cacheDirectory) saveInstallation(cacheDirectory, changes);
+  applyEnvironment(changes);
+}
+
+/**
+ * Applies the environment of a TiCS installation to this process.
+ * @param environment The variables to set.
+ */
+function applyEnvironment(environment: { [key: string]: string }) {
+  Object.keys(environment).forEach(key => (process.env[key] = environment[key]));
+  Logger.Instance.debug(`Updated ${Object.keys(environment).length} environment variable(s) for TiCS.`);
+}
+
+/**
+ * Get the command to install TiCS with and to print the resulting environment after a marker.
+ * @param caBundlePath Path of the CA bundle to verify the certificate of the viewer with.
+ * @returns The program and the arguments to install TiCS with.
+ */
+function getInstallTicsCommand(caBundlePath: string | undefined): [string, string[]] {
+  const trust = skipsCertificateVerification(ticsConfig.trustStrategy, ticsConfig.caBundle);
+
   if (githubConfig.runnerOS === 'Linux') {
-    let trustStrategy = '';
-    if (ticsConfig.trustStrategy === 'self-signed' || ticsConfig.trustStrategy === 'all') {
-      trustStrategy = '--insecure';
-    }
-    return `source <(curl --silent ${trustStrategy} '${installTicsUrl}') &&`;
-  } else {
-    // runnerOS is assumed to be Windows here
-    let trustStrategy = '';
-    if (ticsConfig.trustStrategy === 'self-signed' || ticsConfig.trustStrategy === 'all') {
-      trustStrategy = '[System.Net.ServicePointManager]::ServerCertificateValidationCallback = {$true};';
-    }
-    return `Set-ExecutionPolicy Bypass -Scope Process -Force; [System.Net.ServicePointManager]::SecurityProtocol = [System.Net.ServicePointManager]::SecurityProtocol -bor 3072; ${trustStrategy} iex ((New-Object System.Net.WebClient).DownloadString('${installTicsUrl}'))`;
+    const insecure = trust ? '--insecure ' : caBundlePath ? `--cacert "$${caBundleVariable}" ` : '';
+    return ['/bin/bash', ['-c', `source <(curl --silent ${insecure}"$${installUrlVariable}") && echo '${environmentMarker}' && env -0`]];
   }
+
+  // runnerOS is assumed to be Windows here
+  let trustStrategy = '';
+  if (trust) {
+    trustStrategy = '[System.Net.ServicePointManager]::ServerCertificateValidationCallback = {$true}; ';
+  } else if (caBundlePath) {
+    // accept certificates that only fail because their root is not trusted by Windows, if that root is in the CA bundle
+    trustStrategy =
+      `$ca = New-Object System.Security.Cryptography.X509Certificates.X509Certificate2Collection; $ca.Import($env:${caBundleVariable}); ` +
+      '[System.Net.ServicePointManager]::ServerCertificateValidationCallback = { param($request, $certificate, $chain, $errors) ' +
+      "if ($errors -eq 'None') { return $true }; if ($errors -ne 'RemoteCertificateChainErrors') { return $false }; " +
+      '$caChain = New-Object System.Security.Cryptography.X509Certificates.X509Chain; ' +
+      "$caChain.ChainPolicy.RevocationMode = 'NoCheck'; $caChain.ChainPolicy.VerificationFlags = 'AllowUnknownCertificateAuthority'; " +
+      '$caChain.ChainPolicy.ExtraStore.AddRange($ca); if (-not $caChain.Build($certificate)) { return $false }; ' +
+      '$root = $caChain.ChainElements[$caChain.ChainElements.Count - 1].Certificate; ' +
+      'return [bool]($ca | Where-Object { $_.Thumbprint -eq $root.Thumbprint }) }; ';
+  }
+  return [
+    'powershell',
+    [
+      '-NoProfile',
+      '-NonInteractive',
+      '-Command',
+      'Set-ExecutionPolicy Bypass -Scope Process -Force; ' +
+        '[System.Net.ServicePointManager]::SecurityProtocol = [System.Net.ServicePointManager]::SecurityProtocol -bor 3072; ' +
+        trustStrategy +
+        `iex ((New-Object System.Net.WebClient).DownloadString($env:${installUrlVariable})); ` +
+        `if ($?) { Write-Output '${environmentMarker}'; [Environment]::GetEnvironmentVariables() | ConvertTo-Json -Compress }`
+    ]
+  ];
 }
 
 /**
- * Push warnings or errors to a list to summarize them on exit.
- * @param data stdout or stderr
+ * Parses the environment printed after the marker by the install command.
+ * @param output NUL separated KEY=VALUE pairs (Linux) or a JSON object (Windows).
+ * @returns The environment.
  */
-function findInStdOutOrErr(data: string) {
-  const error = data.toString().match(/\[ERROR.*/g);
-  if (error && !errorList.find(e => e === error?.toString())) errorList.push(error.toString());
+function parseEnvironment(output: string): { [key: string]: string } {
+  if (githubConfig.runnerOS !== 'Linux') return JSON.parse(output);
 
-  const warning = data.toString().match(/\[WARNING.*/g);
-  if (warning && !warningList.find(w => w === warning?.toString())) warningList.push(warning.toString());
+  let environment: { [key: string]: string } = {};
+  output
+    .replace(/^\n/, '')
+    .split('\0')
+    .forEach(entry => {
+      const separator = entry.indexOf('=');
+      if (separator > 0) environment[entry.substring(0, separator)] = entry.substring(separator + 1);
+    });
+  return environment;
+}
 
-  const findExplorerUrl = data.match(/\/Explorer.*/g);
+/**
+ * Push warnings or errors to a list of diagnostics to summarize them on exit.
+ * @param line Line of stdout or stderr.
+ */
+function findInLine(line: string) {
+  if (phase === 'analysis' && uploadPattern.test(line)) phase = 'upload';
+
+  const diagnostic = parseDiagnostic(line);
+  if (diagnostic) {
+    diagnostics.push(diagnostic);
+    const hint = findHint(diagnostic);
+    if (hint) Logger.Instance.info(`${formatDiagnosticCode(diagnostic)}${formatHint(hint)}`);
+  }
+
+  const findExplorerUrl = line.match(/\/Explorer.*/g);
   if (!explorerUrl && findExplorerUrl) explorerUrl = viewerUrl + findExplorerUrl.slice(-1).pop();
 }
 
@@ -116,28 +283,65 @@ async function retrieveInstallTics(os: string) {
 
     return baseUrl + '/' + data.links.installTics;
   } catch (error: any) {
-    Logger.Instance.exit(`An error occurred when trying to retrieve configuration information: ${error.message}`);
+    const message = `An error occurred when trying to retrieve configuration information: ${error.message}`;
+    Logger.Instance.error(message);
+    throw Error(message, { cause: error });
   }
 }
 
 /**
- * Builds the TiCS calculate command based on the fileListPath and the ticsConfig set.
+ * Builds the arguments for TiCS based on the fileListPath and the ticsConfig set.
  * @param fileListPath
- * @returns string of the command to run TiCS.
+ * @returns list of arguments to run TiCS with.
  */
 function getTicsCommand(fileListPath: string) {
-  let execString = 'TICS @' + fileListPath + ' -viewer ';
-  execString += `-project '${ticsConfig.projectName}' `;
-  execString += `-calc ${ticsConfig.calc} `;
-  execString += ticsConfig.nocalc ? `-nocalc ${ticsConfig.nocalc} ` : '';
-  execString += ticsConfig.recalc ? `-recalc ${ticsConfig.recalc} ` : '';
-  execString += ticsConfig.norecalc ? `-norecalc ${ticsConfig.norecalc} ` : '';
-  execString += ticsConfig.codetype ? `-codetype ${ticsConfig.codetype} ` : '';
-  execString += ticsConfig.clientData ? `-cdtoken ${ticsConfig.clientData} ` : '';
-  execString += ticsConfig.tmpDir ? `-tmpdir '${ticsConfig.tmpDir}' ` : '';
-  execString += ticsConfig.additionalFlags ? ticsConfig.additionalFlags : '';
-  // Add TICS debug flag when in debug mode, if this flag was not already set.
-  execString += githubConfig.debugger && !execString.includes('-log ') ? ' -log 9' : '';
-
-  return execString;
+  let args = ['@' + fileListPath, '-viewer', '-project', ticsConfig.projectName];
+  if (ticsConfig.branchName) args.push('-branchname', ticsConfig.branchName);
+  if (githubConfig.branchdir) args.push('-branchdir', githubConfig.branchdir);
+  args.push('-calc', ticsConfig.calc ? ticsConfig.calc : 'GATE');
+  if (ticsConfig.nocalc) args.push('-nocalc', ticsConfig.nocalc);
+  if (ticsConfig.recalc) args.push('-recalc', ticsConfig.recalc);
+  if (ticsConfig.norecalc) args.push('-norecalc', ticsConfig.norecalc);
+  if (ticsConfig.codetype) args.push('-codetype', ticsConfig.codetype);
+  if (ticsConfig.clientData) args.push('-cdtoken', ticsConfig.clientData);
+  if (ticsConfig.tmpDir) args.push('-tmpdir', ticsConfig.tmpDir);
+
+  return addAdditionalFlags(args);
+}
+
+/**
+ * Builds the arguments for TICSQServer based on the ticsConfig set.
+ * @returns list of arguments to run TICSQServer with.
+ */
+function getTicsQServerCommand() {
+  let args = ['-project', ticsConfig.projectName];
+  if (ticsConfig.branchName) args.push('-branchname', ticsConfig.branchName);
+  if (githubConfig.branchdir) args.push('-branchdir', githubConfig.branchdir);
+  if (ticsConfig.calc) args.push('-calc', ticsConfig.calc);
+  if (ticsConfig.nocalc) args.push('-nocalc', ticsConfig.nocalc);
+  if (ticsConfig.recalc) args.push('-recalc', ticsConfig.recalc);
+  if (ticsConfig.norecalc) args.push('-norecalc', ticsConfig.norecalc);
+  if (ticsConfig.tmpDir) args.push('-tmpdir', ticsConfig.tmpDir);
+
+  return addAdditionalFlags(args);
+}
+
+/**
+ * Adds the additionalFlags and the TiCS debug flag (when in debug mode and not set already) to the arguments.
+ * @param args The arguments built from the ticsConfig.
+ * @returns The complete list of arguments.
+ */
+function addAdditionalFlags(args: string[]) {
+  if (ticsConfig.additionalFlags) {
+    try {
+      args.push(...splitArguments(ticsConfig.additionalFlags));
+    } catch (error: any) {
+      const message = `Could not parse additionalFlags: ${error.message}`;
+      Logger.Instance.error(message);
+      throw Error(message, { cause: error });
+    }
+  }
+  if (githubConfig.debugger && !args.includes('-log')) args.push('-log', '9');
+
+  return args;
 }
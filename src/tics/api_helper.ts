@@ -1,14 +1,21 @@
 import { OutgoingHttpHeaders } from 'http';
 import Logger from '../helper/logger';
 import { githubConfig, requestInit, ticsConfig, viewerUrl } from '../configuration';
-import { Analysis } from '../helper/interfaces';
-import fetch from 'node-fetch';
+import { Analysis, DiagnosticGroup, QualityGate } from '../helper/interfaces';
+import fetch, { RequestInit, Response } from 'node-fetch';
 import { exportVariable } from '@actions/core';
+import { formatDiagnosticGroup, groupDiagnostics } from './diagnostics';
+import { findHint, formatHint } from './hints';
+import { TicsApiError, TicsAuthError, TicsBadRequestError, TicsNotFoundError, TicsRedirectError, TicsServerError } from './errors';
+
+// upper bound of the delay between two attempts of a request
+const maxRetryDelay = 60000;
 
 /**
  * Executes a GET request to the given url.
  * @param url api url to perform a GET request for.
  * @returns Promise of the data retrieved from the response.
+ * @throws TicsApiError if the viewer does not respond with status 200.
  */
 export async function httpRequest(url: string): Promise<any> {
   var headers: OutgoingHttpHeaders = {
@@ -20,44 +27,162 @@ export async function httpRequest(url: string): Promise<any> {
 
   requestInit.headers = headers;
 
-  const response = await fetch(url, requestInit);
-
-  switch (response.status) {
-    case 200:
-      return response.json();
-    case 302:
-      Logger.Instance.exit(
-        `HTTP request failed with status ${response.status}. Please check if the given ticsConfiguration is correct (possibly http instead of https).`
-      );
-      break;
-    case 400:
-      Logger.Instance.exit(`HTTP request failed with status ${response.status}. ${(await response.json()).alertMessages[0].header}`);
-      break;
-    case 401:
-      Logger.Instance.exit(
-        `HTTP request failed with status ${response.status}. Please provide a valid TICSAUTHTOKEN in your configuration. Check ${viewerUrl}/Administration.html#page=authToken`
-      );
-      break;
-    case 404:
-      Logger.Instance.exit(`HTTP request failed with status ${response.status}. Please check if the given ticsConfiguration is correct.`);
-      break;
-    default:
-      Logger.Instance.exit(`HTTP request failed with status ${response.status}. Please check if your configuration is correct.`);
-      break;
+  const response = await fetchWithRetry(url, requestInit);
+  if (response.status === 200) return response.json();
+
+  throw await createApiError(response, url);
+}
+
+/**
+ * Creates the error for an unsuccessful response of the viewer.
+ * @param response the unsuccessful response.
+ * @param url api url the request was performed for.
+ * @returns Error describing the failure.
+ */
+async function createApiError(response: Response, url: string): Promise<TicsApiError> {
+  const status = response.status;
+  const alertMessages = await getAlertMessages(response);
+  const message = `HTTP request failed with status ${status}.`;
+
+  if (status >= 300 && status < 400) {
+    return new TicsRedirectError(
+      `${message} Please check if the given ticsConfiguration is correct (possibly http instead of https).`,
+      status,
+      url,
+      alertMessages
+    );
+  } else if (status === 400) {
+    return new TicsBadRequestError(`${message} ${alertMessages.join(' ')}`.trim(), status, url, alertMessages);
+  } else if (status === 401 || status === 403) {
+    return new TicsAuthError(
+      `${message} Please provide a valid TICSAUTHTOKEN in your configuration. Check ${viewerUrl}/Administration.html#page=authToken`,
+      status,
+      url,
+      alertMessages
+    );
+  } else if (status === 404) {
+    return new TicsNotFoundError(`${message} Please check if the given ticsConfiguration is correct.`, status, url, alertMessages);
+  } else if (status === 429 || status >= 500) {
+    return new TicsServerError(`${message} The TiCS viewer could not handle the request, please try again later.`, status, url, alertMessages);
+  }
+  return new TicsApiError(`${message} Please check if your configuration is correct.`, status, url, alertMessages);
+}
+
+/**
+ * Retrieves the headers of the alert messages the viewer returns with an error response.
+ * @param response the unsuccessful response.
+ * @returns the alert messages, empty if the body does not contain any.
+ */
+async function getAlertMessages(response: Response): Promise<string[]> {
+  try {
+    const body = await response.json();
+    return body.alertMessages ? body.alertMessages.map((alert: any) => alert.header) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Executes a GET request, retrying it on network errors and on 429 and 5xx responses.
+ * The delay between attempts grows exponentially with jitter, unless the viewer sends a Retry-After header.
+ * @param url api url to perform a GET request for.
+ * @param init options of the request.
+ * @returns Promise of the last response retrieved.
+ */
+async function fetchWithRetry(url: string, init: RequestInit): Promise<Response> {
+  const attempts = ticsConfig.retryCount + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    Logger.Instance.debug(`GET ${url} (attempt ${attempt}/${attempts})`);
+    let delay: number;
+
+    try {
+      const response = await fetch(url, init);
+      if (!isRetryableStatus(response.status) || attempt >= attempts) return response;
+
+      delay = getRetryAfterDelay(response.headers.get('Retry-After')) ?? getBackoffDelay(attempt);
+      Logger.Instance.debug(`Request failed with status ${response.status}, retrying in ${delay}ms.`);
+    } catch (error: any) {
+      if (attempt >= attempts) throw error;
+
+      delay = getBackoffDelay(attempt);
+      Logger.Instance.debug(`Request failed: ${error.message}, retrying in ${delay}ms.`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, delay));
   }
 }
 
+/**
+ * Checks if a request that responded with the given status could succeed when retried.
+ * @param status HTTP status of the response.
+ * @returns true if the request should be retried.
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Returns the exponential backoff delay for an attempt, with jitter to spread out requests of concurrent runs.
+ * @param attempt number of the failed attempt, starting at 1.
+ * @returns delay in milliseconds.
+ */
+function getBackoffDelay(attempt: number): number {
+  const delay = Math.min(ticsConfig.retryDelay * 1000 * 2 ** (attempt - 1), maxRetryDelay);
+  return Math.round(delay / 2 + (Math.random() * delay) / 2);
+}
+
+/**
+ * Parses the Retry-After header, which is either a number of seconds or an HTTP date.
+ * @param retryAfter value of the Retry-After header.
+ * @returns delay in milliseconds, or undefined if the header is missing or invalid.
+ */
+function getRetryAfterDelay(retryAfter: string | null): number | undefined {
+  if (!retryAfter) return undefined;
+
+  const seconds = Number(retryAfter);
+  const delay = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+  if (isNaN(delay)) return undefined;
+
+  return Math.min(Math.max(delay, 0), maxRetryDelay);
+}
+
 /**
  * Creates a cli summary of all errors and bugs based on the logLevel.
  * @param analysis the output of the TiCS analysis run.
  */
 export function cliSummary(analysis: Analysis): void {
-  analysis.errorList.forEach(error => Logger.Instance.error(error));
+  groupDiagnostics(analysis.diagnostics, 'error').forEach(group => Logger.Instance.error(formatCliDiagnosticGroup(group)));
   if (githubConfig.debugger) {
-    analysis.warningList.forEach(warning => Logger.Instance.warning(warning));
+    groupDiagnostics(analysis.diagnostics, 'warning').forEach(group => Logger.Instance.warning(formatCliDiagnosticGroup(group)));
   }
 }
 
+/**
+ * Formats a group of errors or warnings for the cli summary.
+ * @param group the group of diagnostics.
+ * @returns the group as (multi-line) text.
+ */
+function formatCliDiagnosticGroup(group: DiagnosticGroup): string {
+  const [title, details] = formatDiagnosticGroup(group);
+  const hint = findHint(group);
+  return [title, ...details.map(detail => `  ${detail}`), ...(hint ? [formatHint(hint)] : [])].join('\n');
+}
+
+/**
+ * Creates a cli summary of the quality gate and its conditions.
+ * @param qualityGate quality gate retrieved from the TiCS viewer.
+ */
+export function qualityGateCliSummary(qualityGate: QualityGate): void {
+  Logger.Instance.header(qualityGate.message);
+  qualityGate.gates.forEach(gate => {
+    gate.conditions.forEach(condition => {
+      if (condition.skipped) return;
+      Logger.Instance.info(`${gate.name}: ${condition.passed ? 'Passed' : 'Failed'} - ${condition.message}`);
+    });
+  });
+}
+
 /**
  * Creates the TiCS install data from the TiCS Viewer.
  * @param url url given in the ticsConfiguration.
@@ -0,0 +1,121 @@
+import { Diagnostic, DiagnosticGroup, DiagnosticSeverity } from '../helper/interfaces';
+
+// e.g. "[ERROR 666] message" or "[WARNING 5057] message", possibly preceded by a timestamp
+const diagnosticPattern = /\[(ERROR|WARNING)(?:\s+(\d+))?\]:?\s*(.*)$/;
+// e.g. "src/main.c(12): message" or "src/main.c:12: message"
+const locationPatterns = [/^(\S+)\((\d+)(?:,\d+)?\):\s*(.*)$/, /^((?:[a-zA-Z]:)?[^\s:]+):(\d+)(?::\d+)?:\s*(.*)$/];
+
+export interface LineBuffer {
+  write(data: string): void;
+  flush(): void;
+}
+
+/**
+ * Creates a buffer that splits output into lines. Output arrives in chunks that do not have to end on a line break,
+ * so an incomplete line is kept until the rest of it arrives or the buffer is flushed.
+ * @param onLine Called for each complete line.
+ * @returns The line buffer.
+ */
+export function createLineBuffer(onLine: (line: string) => void): LineBuffer {
+  let buffered = '';
+
+  return {
+    write(data: string) {
+      const lines = (buffered + data).split(/\r\n|\n|\r/);
+      buffered = lines.pop()!;
+      lines.forEach(line => onLine(line));
+    },
+    flush() {
+      if (buffered) onLine(buffered);
+      buffered = '';
+    }
+  };
+}
+
+/**
+ * Parses a line of TiCS output into a diagnostic.
+ * @param line Line of TiCS output.
+ * @returns The diagnostic, or undefined if the line does not contain an error or warning.
+ */
+export function parseDiagnostic(line: string): Diagnostic | undefined {
+  const match = line.match(diagnosticPattern);
+  if (!match) return undefined;
+
+  let diagnostic: Diagnostic = {
+    severity: match[1] === 'ERROR' ? 'error' : 'warning',
+    message: match[3].trim()
+  };
+  if (match[2]) diagnostic.code = Number(match[2]);
+
+  for (const pattern of locationPatterns) {
+    const location = diagnostic.message.match(pattern);
+    if (location) {
+      diagnostic.file = location[1];
+      diagnostic.line = Number(location[2]);
+      diagnostic.message = location[3];
+      break;
+    }
+  }
+  return diagnostic;
+}
+
+/**
+ * Groups diagnostics by severity and code, keeping the distinct occurrences and the number of times they occurred.
+ * @param diagnostics The diagnostics to group.
+ * @param severity Only group diagnostics of this severity.
+ * @returns The groups, in order of first occurrence.
+ */
+export function groupDiagnostics(diagnostics: Diagnostic[], severity: DiagnosticSeverity): DiagnosticGroup[] {
+  let groups: DiagnosticGroup[] = [];
+
+  diagnostics
+    .filter(diagnostic => diagnostic.severity === severity)
+    .forEach(diagnostic => {
+      // diagnostics without code (e.g. errors of the action itself) are not related, so each gets its own group
+      let group = diagnostic.code !== undefined ? groups.find(g => g.code === diagnostic.code) : undefined;
+      if (!group) {
+        group = { severity: severity, code: diagnostic.code, count: 0, diagnostics: [] };
+        groups.push(group);
+      }
+      group.count++;
+      if (!group.diagnostics.find(d => formatDiagnostic(d) === formatDiagnostic(diagnostic))) group.diagnostics.push(diagnostic);
+    });
+
+  return groups;
+}
+
+/**
+ * Formats a group of diagnostics. A group with a single distinct diagnostic is formatted on one line, otherwise the
+ * distinct diagnostics are listed after a line with the number of occurrences.
+ * @param group The group to format.
+ * @returns The first line and the lines listing the distinct diagnostics (if any).
+ */
+export function formatDiagnosticGroup(group: DiagnosticGroup): [string, string[]] {
+  const occurrences = `${group.count} occurrence${group.count === 1 ? '' : 's'}`;
+
+  if (group.diagnostics.length === 1) {
+    return [`${formatDiagnostic(group.diagnostics[0])}${group.count > 1 ? ` (${occurrences})` : ''}`, []];
+  }
+  return [`${formatDiagnosticCode(group)}${occurrences}:`, group.diagnostics.map(diagnostic => formatDiagnostic({ ...diagnostic, code: undefined }))];
+}
+
+/**
+ * Formats a diagnostic the way TiCS prints it.
+ * @param diagnostic The diagnostic to format.
+ * @returns The diagnostic as text.
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  let text = formatDiagnosticCode(diagnostic);
+  if (diagnostic.file) text += `${diagnostic.file}${diagnostic.line !== undefined ? `(${diagnostic.line})` : ''}: `;
+  return text + diagnostic.message;
+}
+
+/**
+ * Formats the severity and code of a diagnostic, e.g. "[ERROR 666] ".
+ * @param diagnostic The diagnostic or group to format.
+ * @returns The severity and code as text, or an empty string if there is no code.
+ */
+export function formatDiagnosticCode(diagnostic: Diagnostic | DiagnosticGroup): string {
+  if (diagnostic.code === undefined) return '';
+  return `[${diagnostic.severity.toUpperCase()} ${diagnostic.code}] `;
+}
@@ -0,0 +1,89 @@
+/**
+ * Error thrown when a request to the TiCS viewer does not return a successful response.
+ */
+export class TicsApiError extends Error {
+  status: number;
+  url: string;
+  alertMessages: string[];
+
+  /**
+   * @param message Message describing the failure.
+   * @param status HTTP status of the response.
+   * @param url Url of the request.
+   * @param alertMessages Alert messages returned by the viewer.
+   */
+  constructor(message: string, status: number, url: string, alertMessages: string[] = []) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.url = url;
+    this.alertMessages = alertMessages;
+  }
+}
+
+/**
+ * Error thrown when the viewer refuses the request because of a missing or invalid TICSAUTHTOKEN (401 or 403).
+ */
+export class TicsAuthError extends TicsApiError {}
+
+/**
+ * Error thrown when the requested resource does not exist on the viewer (404).
+ */
+export class TicsNotFoundError extends TicsApiError {}
+
+/**
+ * Error thrown when the viewer redirects the request, often because http is used instead of https (3xx).
+ */
+export class TicsRedirectError extends TicsApiError {}
+
+/**
+ * Error thrown when the viewer rejects the parameters of the request (400).
+ */
+export class TicsBadRequestError extends TicsApiError {}
+
+/**
+ * Error thrown when the viewer fails to handle the request (429 or 5xx).
+ */
+export class TicsServerError extends TicsApiError {}
+
+/**
+ * Error thrown when a response of the TiCS viewer does not have the expected format.
+ */
+export class TicsResponseError extends Error {
+  field: string;
+
+  /**
+   * @param field Name of the field in the response that does not have the expected format.
+   * @param expected Description of the expected value.
+   * @param actual The value found in the response.
+   */
+  constructor(field: string, expected: string, actual: any) {
+    super(`Unexpected viewer response: ${field} should be ${expected}, found ${describeValue(actual)}.`);
+    this.name = new.target.name;
+    this.field = field;
+  }
+}
+
+/**
+ * Describes a value found in a response for an error message.
+ * @param value The value to describe.
+ * @returns Short description of the value.
+ */
+function describeValue(value: any): string {
+  if (value === null || value === undefined) return `${value}`;
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${JSON.stringify(value)}`;
+}
+
+/**
+ * Checks if an error (or the error that caused it) is one of the given TiCS api errors.
+ * @param error Error to check.
+ * @param types Classes of the errors to check for.
+ * @returns true if the error or its cause is an instance of one of the types.
+ */
+export function isTicsApiError(error: any, ...types: (typeof TicsApiError)[]): boolean {
+  const apiError = error instanceof TicsApiError ? error : error?.cause;
+  if (!(apiError instanceof TicsApiError)) return false;
+
+  return types.length === 0 || types.some(type => apiError instanceof type);
+}
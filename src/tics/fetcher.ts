@@ -1,27 +1,29 @@
 import { baseUrl, ticsConfig } from '../configuration';
 import Logger from '../helper/logger';
 import { getItemFromUrl, getProjectName, httpRequest } from './api_helper';
+import { Annotation, AnnotationApiLink, QualityGate, ViewerVersion } from '../helper/interfaces';
+import { validateAnnotations, validateMeasure, validateQualityGate, validateViewerVersion } from './validation';
 
 /**
  * Retrieves the files TiCS analyzed from the TiCS viewer.
  * @param url The TiCS explorer url.
  * @returns the analyzed files.
  */
-export async function getAnalyzedFiles(url: string): Promise<any> {
+export async function getAnalyzedFiles(url: string): Promise<string[]> {
   Logger.Instance.header('Retrieving analyzed files.');
   const analyzedFilesUrl = getAnalyzedFilesUrl(url);
   Logger.Instance.debug(`From: ${analyzedFilesUrl}`);
 
   try {
-    const response = await httpRequest(analyzedFilesUrl);
-    const analyzedFiles = response.data.map((file: any) => {
+    const response = validateMeasure(await httpRequest(analyzedFilesUrl));
+    const analyzedFiles = response.data.map(file => {
       Logger.Instance.debug(file.formattedValue);
       return file.formattedValue;
     });
     Logger.Instance.info('Retrieved the analyzed files.');
     return analyzedFiles;
   } catch (error: any) {
-    Logger.Instance.exit(`There was an error retrieving the analyzed files: ${error.message}`);
+    throw Error(`There was an error retrieving the analyzed files: ${error.message}`, { cause: error });
   }
 }
 
@@ -35,34 +37,35 @@ function getAnalyzedFilesUrl(url: string) {
 
   const clientData = getItemFromUrl(url, 'ClientData');
   const projectName = getProjectName(url);
-  getAnalyzedFilesUrl.searchParams.append('filters', `ClientData(${clientData}),Project(${projectName}),Window(-1),File()`);
+  const branch = ticsConfig.branchName ? `Branch(${ticsConfig.branchName}),` : '';
+  getAnalyzedFilesUrl.searchParams.append('filters', `ClientData(${clientData}),Project(${projectName}),${branch}Window(-1),File()`);
 
   return getAnalyzedFilesUrl.href;
 }
 
 /**
  * Retrieves the TiCS quality gate from the TiCS viewer.
- * @param url The TiCS explorer url.
+ * @param url The TiCS explorer url, if omitted the quality gate of the project itself is retrieved.
  * @returns the quality gates
  */
-export async function getQualityGate(url: string): Promise<any> {
+export async function getQualityGate(url: string = ''): Promise<QualityGate> {
   Logger.Instance.header('Retrieving the quality gates.');
   const qualityGateUrl = getQualityGateUrl(url);
   Logger.Instance.debug(`From: ${qualityGateUrl}`);
 
   try {
-    const response = await httpRequest(qualityGateUrl);
+    const response = validateQualityGate(await httpRequest(qualityGateUrl));
     Logger.Instance.info('Retrieved the quality gates.');
-    Logger.Instance.debug(response);
+    Logger.Instance.debug(JSON.stringify(response));
     return response;
   } catch (error: any) {
-    Logger.Instance.exit(`There was an error retrieving the quality gates: ${error.message}`);
+    throw Error(`There was an error retrieving the quality gates: ${error.message}`, { cause: error });
   }
 }
 
 /**
  * Builds the quality gate url from the explorer url.
- * @param url The TiCS Explorer url.
+ * @param url The TiCS Explorer url (can be empty for a QServer analysis).
  * @returns The url to get the quality gate analysis.
  */
 function getQualityGateUrl(url: string) {
@@ -78,8 +81,11 @@ function getQualityGateUrl(url: string) {
 
   qualityGateUrl.searchParams.append('fields', 'details,annotationsApiV1Links');
 
+  // ClientData is only present for client analyses
   const clientData = getItemFromUrl(url, 'ClientData');
-  qualityGateUrl.searchParams.append('cdt', clientData);
+  if (clientData) {
+    qualityGateUrl.searchParams.append('cdt', clientData);
+  }
 
   return qualityGateUrl.href;
 }
@@ -89,16 +95,16 @@ function getQualityGateUrl(url: string) {
  * @param apiLinks annotationsApiLinks url.
  * @returns TiCS annotations.
  */
-export async function getAnnotations(apiLinks: any[]) {
+export async function getAnnotations(apiLinks: AnnotationApiLink[]): Promise<Annotation[]> {
   Logger.Instance.header('Retrieving annotations.');
   try {
-    let annotations: any[] = [];
+    let annotations: Annotation[] = [];
     await Promise.all(
       apiLinks.map(async (link, index) => {
         const annotationsUrl = `${baseUrl}/${link.url}`;
         Logger.Instance.debug(`From: ${annotationsUrl}`);
-        const response = await httpRequest(annotationsUrl);
-        response.data.forEach((annotation: any) => {
+        const response = validateAnnotations(await httpRequest(annotationsUrl));
+        response.forEach(annotation => {
           annotation.gateId = index;
           Logger.Instance.debug(JSON.stringify(annotation));
           annotations.push(annotation);
@@ -108,7 +114,7 @@ export async function getAnnotations(apiLinks: any[]) {
     Logger.Instance.info('Retrieved all annotations.');
     return annotations;
   } catch (error: any) {
-    Logger.Instance.exit(`An error occured when trying to retrieve annotations: ${error.message}`);
+    throw Error(`An error occured when trying to retrieve annotations: ${error.message}`, { cause: error });
   }
 }
 
@@ -116,14 +122,14 @@ export async function getAnnotations(apiLinks: any[]) {
  * Gets the version of the TiCS viewer used.
  * @returns Version of the used TiCS viewer.
  */
-export async function getViewerVersion() {
+export async function getViewerVersion(): Promise<ViewerVersion> {
   let getViewerVersionUrl = new URL(baseUrl + '/api/v1/version');
   try {
-    const response = await httpRequest(getViewerVersionUrl.href);
+    const response = validateViewerVersion(await httpRequest(getViewerVersionUrl.href));
     Logger.Instance.info('Retrieved the Viewer Version.');
-    Logger.Instance.debug(response);
+    Logger.Instance.debug(JSON.stringify(response));
     return response;
   } catch (error: any) {
-    Logger.Instance.exit(`There was an error retrieving the Viewer version: ${error.message}`);
+    throw Error(`There was an error retrieving the Viewer version: ${error.message}`, { cause: error });
   }
 }
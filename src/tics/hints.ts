@@ -0,0 +1,159 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'canonical-path';
+import { ticsConfig } from '../configuration';
+import Logger from '../helper/logger';
+import { Diagnostic, DiagnosticGroup, DiagnosticHint } from '../helper/interfaces';
+
+const ticsDocumentation = 'https://portal.tiobe.com/2022.2/docs/';
+const actionParameters = 'https://github.com/tiobe/tics-github-action#action-parameters';
+
+// the codes of most TiCS errors differ between TiCS versions, so those hints match on the message instead
+const builtInHints: DiagnosticHint[] = [
+  {
+    code: 5057,
+    severity: 'warning',
+    explanation:
+      'None of the changed files are analyzed by TiCS, e.g. because they are excluded or their language is not part of the TiCS configuration. The pull request is not quality gated.',
+    link: ticsDocumentation
+  },
+  {
+    pattern: 'no (valid )?licen[cs]e|licen[cs]e (server|has expired|expired|is not valid|could not|not found)',
+    severity: 'error',
+    explanation:
+      'TiCS could not obtain a license, e.g. because the license server cannot be reached from the runner or all licenses are in use. Use a runner that can reach the license server of the TiCS installation.',
+    link: ticsDocumentation
+  },
+  {
+    pattern: 'authenticat|authori[sz]|\\b401\\b|access denied|permission denied for project',
+    severity: 'error',
+    explanation:
+      'The TiCS Viewer rejected the client. Set ticsAuthToken to a valid authentication token of the viewer, stored as a secret, and check that its user has access to the project.',
+    link: actionParameters
+  },
+  {
+    pattern: 'project\\b.*\\b(not found|does not exist|unknown|not known)|(unknown|no such) project',
+    severity: 'error',
+    explanation:
+      'The project is not known to the TiCS Viewer. Check that projectName matches the name of a project in the viewer (case sensitive) or set it to auto.',
+    link: actionParameters
+  },
+  {
+    pattern: 'configuration\\b.*\\b(not found|does not exist|could not be|cannot be|invalid)|ticsconfiguration|TICS\\.CFG',
+    severity: 'error',
+    explanation:
+      'TiCS cannot find or read its configuration. Check that ticsConfiguration points to the cfg API of the TiCS Viewer with the name of an existing configuration.',
+    link: actionParameters
+  },
+  {
+    pattern: 'certificate|\\bssl\\b|PKIX',
+    severity: 'error',
+    explanation:
+      'The certificate of the TiCS Viewer cannot be verified. Pass the certificate of the (private) certificate authority in caBundle or set the trustStrategy.',
+    link: 'https://portal.tiobe.com/2022.2/docs/#doc=admin/admin_11_viewer.html%23ssl-wrapper'
+  },
+  {
+    pattern: 'could not connect|connection refused|unknown host|ECONNREFUSED|ENOTFOUND',
+    severity: 'error',
+    explanation:
+      'The TiCS Viewer cannot be reached from the runner. Check the URL of the viewer in ticsConfiguration or use a self-hosted runner in the network of the viewer.',
+    link: actionParameters
+  }
+];
+
+let hints: DiagnosticHint[] = builtInHints;
+
+/**
+ * Loads the hints of the hintsFile on top of the built-in hints. A hint of the file replaces a built-in hint for the same code
+ * (or pattern).
+ * The hintsFile is optional, if it does not exist only the built-in hints are used.
+ */
+export function loadHints(): void {
+  hints = builtInHints;
+  if (!ticsConfig.hintsFile) return;
+
+  const path = resolve(process.env.GITHUB_WORKSPACE ? process.env.GITHUB_WORKSPACE : '', ticsConfig.hintsFile);
+  if (!existsSync(path)) return Logger.Instance.debug(`No hints file found at ${path}.`);
+
+  let fileHints: DiagnosticHint[];
+  try {
+    fileHints = parseHints(JSON.parse(readFileSync(path, 'utf8')));
+  } catch (error: any) {
+    return Logger.Instance.warning(`Could not load the hints of ${ticsConfig.hintsFile}: ${error.message}`);
+  }
+
+  hints = [...fileHints, ...builtInHints.filter(hint => !fileHints.find(fileHint => isSameHint(hint, fileHint)))];
+  Logger.Instance.debug(`Loaded ${fileHints.length} hint(s) from ${ticsConfig.hintsFile}.`);
+}
+
+/**
+ * Finds the hint for a diagnostic, based on its code, message and severity.
+ * @param diagnostic The diagnostic or group of diagnostics.
+ * @returns The first hint that applies, or undefined if there is no hint for the diagnostic.
+ */
+export function findHint(diagnostic: Diagnostic | DiagnosticGroup): DiagnosticHint | undefined {
+  const messages = 'diagnostics' in diagnostic ? diagnostic.diagnostics.map(d => d.message) : [diagnostic.message];
+
+  return hints.find(hint => {
+    if (hint.severity && hint.severity !== diagnostic.severity) return false;
+    if (hint.code !== undefined && hint.code !== diagnostic.code) return false;
+    return hint.pattern === undefined || messages.some(message => new RegExp(hint.pattern!, 'i').test(message));
+  });
+}
+
+/**
+ * Formats a hint as text.
+ * @param hint The hint to format.
+ * @returns The explanation followed by the link (if any).
+ */
+export function formatHint(hint: DiagnosticHint): string {
+  return `Hint: ${hint.explanation}${hint.link ? ` See ${hint.link}` : ''}`;
+}
+
+/**
+ * Parses the content of a hints file.
+ * @param content Parsed JSON content of the file, a list of hints.
+ * @returns The hints.
+ * @throws Error naming the first invalid hint.
+ */
+function parseHints(content: any): DiagnosticHint[] {
+  if (!Array.isArray(content)) throw Error('the file should contain a list of hints.');
+
+  return content.map((hint, index) => {
+    if (typeof hint !== 'object' || hint === null) throw Error(`hint ${index} should be an object.`);
+    if (hint.code === undefined && hint.pattern === undefined) throw Error(`hint ${index} should have a code or a pattern.`);
+    if (hint.code !== undefined && typeof hint.code !== 'number') throw Error(`hint ${index} should have a numeric code.`);
+    if (hint.pattern !== undefined && !isRegExp(hint.pattern)) throw Error(`the pattern of hint ${index} should be a regular expression.`);
+    if (typeof hint.explanation !== 'string') throw Error(`hint ${index} should have an explanation.`);
+    if (hint.severity !== undefined && hint.severity !== 'error' && hint.severity !== 'warning') {
+      throw Error(`the severity of hint ${index} should be error or warning.`);
+    }
+    if (hint.link !== undefined && typeof hint.link !== 'string') throw Error(`the link of hint ${index} should be a string.`);
+
+    return { code: hint.code, pattern: hint.pattern, severity: hint.severity, explanation: hint.explanation, link: hint.link };
+  });
+}
+
+/**
+ * Checks if two hints are for the same diagnostics.
+ * @param a A hint.
+ * @param b Another hint.
+ * @returns true if the hints have the same code, pattern and severity, or one of them applies to both severities.
+ */
+function isSameHint(a: DiagnosticHint, b: DiagnosticHint): boolean {
+  return a.code === b.code && a.pattern === b.pattern && (!a.severity || !b.severity || a.severity === b.severity);
+}
+
+/**
+ * Checks if a value is a valid regular expression.
+ * @param value The value to check.
+ * @returns true if the value is a string that compiles to a regular expression.
+ */
+function isRegExp(value: any): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    new RegExp(value, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,130 @@
+import { createHash } from 'crypto';
+import { cpSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { delimiter, isAbsolute, join, relative } from 'path';
+import { githubConfig, ticsConfig } from '../configuration';
+import Logger from '../helper/logger';
+import { getViewerVersion } from './fetcher';
+
+const toolName = 'TICS';
+const executableNames = ['TICS', 'TICS.exe'];
+const environmentFile = 'tics-environment.json';
+// paths are stored relative to the installation, as it is restored from a different directory than it was installed in
+const directoryPlaceholder = '${TICS_INSTALLATION}';
+
+interface CachedEnvironment {
+  path: string[];
+  variables: { [key: string]: string };
+}
+
+/**
+ * Gets the directory in the tool cache of the runner to cache the TiCS installation in. The directory is keyed
+ * on the version of the viewer, the OS of the runner and the TiCS configuration, so a changed viewer reinstalls TiCS.
+ * @returns The directory, or undefined if the installation cannot be cached on this runner.
+ */
+export async function getInstallationCacheDirectory(): Promise<string | undefined> {
+  const toolCache = process.env.RUNNER_TOOL_CACHE;
+  // GitHub-hosted runners start every job with an empty tool cache, so caching would only cost time there
+  if (!toolCache || process.env.RUNNER_ENVIRONMENT === 'github-hosted') return undefined;
+
+  let version;
+  try {
+    version = (await getViewerVersion()).version;
+  } catch (error: any) {
+    Logger.Instance.debug(`Not caching the TiCS installation: ${error.message}`);
+    return undefined;
+  }
+
+  const configuration = createHash('sha256').update(ticsConfig.ticsConfiguration).digest('hex').substring(0, 16);
+  return join(toolCache, toolName, version.replace(/[^\w.-]/g, '_'), `${githubConfig.runnerOS.toLowerCase()}-${process.arch}-${configuration}`);
+}
+
+/**
+ * Restores a TiCS installation from the tool cache.
+ * @param directory The directory of the installation in the tool cache.
+ * @returns The environment to run the restored installation with, or undefined if it is not cached.
+ */
+export function restoreInstallation(directory: string): { [key: string]: string } | undefined {
+  // the marker is only written once the installation is cached completely, the same way the actions tool-cache does
+  if (!existsSync(`${directory}.complete`)) return undefined;
+
+  let cached: CachedEnvironment;
+  try {
+    cached = JSON.parse(readFileSync(join(directory, environmentFile), 'utf8'));
+  } catch (error: any) {
+    Logger.Instance.debug(`Could not restore the TiCS installation from ${directory}: ${error.message}`);
+    return undefined;
+  }
+
+  const resolvePaths = (value: string) => value.split(directoryPlaceholder).join(directory);
+  let environment: { [key: string]: string } = {};
+  Object.keys(cached.variables).forEach(key => (environment[key] = resolvePaths(cached.variables[key])));
+
+  const pathKey = getPathKey(process.env);
+  environment[pathKey] = [...cached.path.map(resolvePaths), process.env[pathKey]].filter(entry => entry).join(delimiter);
+
+  Logger.Instance.info(`Restored TiCS from the tool cache (${directory}).`);
+  return environment;
+}
+
+/**
+ * Copies a TiCS installation into the tool cache. The installation is the directory on the PATH added by the installer
+ * that holds the TICS executable. Caching is skipped if there is no such directory or it contains the workspace or the
+ * tool cache, and failing to cache only results in a warning as TiCS is installed already.
+ * @param directory The directory of the installation in the tool cache.
+ * @param environment The variables the installer changed, must be called before they are applied.
+ */
+export function saveInstallation(directory: string, environment: { [key: string]: string }): void {
+  const pathKey = getPathKey(environment);
+  const previousPath = process.env[pathKey] ? process.env[pathKey]!.split(delimiter) : [];
+  const addedPath = environment[pathKey] ? environment[pathKey].split(delimiter).filter(entry => entry && !previousPath.includes(entry)) : [];
+
+  let variables: { [key: string]: string } = {};
+  Object.keys(environment)
+    .filter(key => key !== pathKey)
+    .forEach(key => (variables[key] = environment[key]));
+
+  const installation = addedPath.find(entry => isAbsolute(entry) && executableNames.some(name => existsSync(join(entry, name))));
+  if (!installation)
+    return Logger.Instance.debug('Not caching the TiCS installation, as the TICS executable is not on the PATH added by the installer.');
+
+  // copying a directory that contains the workspace or the tool cache would copy far more than TiCS, or even into itself
+  const containedDirectory = [process.env.GITHUB_WORKSPACE, process.env.RUNNER_TOOL_CACHE].find(entry => entry && isWithin(installation, entry));
+  if (containedDirectory) return Logger.Instance.debug(`Not caching the TiCS installation, as ${installation} contains ${containedDirectory}.`);
+
+  const toCachedPath = (value: string) => value.split(installation).join(directoryPlaceholder);
+  let cached: CachedEnvironment = { path: addedPath.map(toCachedPath), variables: {} };
+  Object.keys(variables).forEach(key => (cached.variables[key] = toCachedPath(variables[key])));
+
+  try {
+    rmSync(directory, { recursive: true, force: true });
+    mkdirSync(directory, { recursive: true });
+    cpSync(installation, directory, { recursive: true });
+    writeFileSync(join(directory, environmentFile), JSON.stringify(cached));
+    writeFileSync(`${directory}.complete`, '');
+    Logger.Instance.info(`Cached the TiCS installation of ${installation} in the tool cache (${directory}).`);
+  } catch (error: any) {
+    Logger.Instance.warning(`Could not cache the TiCS installation: ${error.message}`);
+  }
+}
+
+/**
+ * Finds the name of the PATH variable, which is Path on Windows.
+ * @param environment The environment to look in.
+ * @returns The name of the variable.
+ */
+function getPathKey(environment: { [key: string]: string | undefined }): string {
+  const key = Object.keys(environment).find(key => key.toUpperCase() === 'PATH');
+  return key ? key : 'PATH';
+}
+
+/**
+ * Checks if a path is the same as or inside a directory.
+ * @param directory The directory.
+ * @param path The path to check.
+ * @returns true if the path is within the directory.
+ */
+function isWithin(directory: string, path: string): boolean {
+  const relativePath = relative(directory, path);
+  // a relative path that is absolute means the paths are on different drives (Windows)
+  return !relativePath.startsWith('..') && !isAbsolute(relativePath);
+}
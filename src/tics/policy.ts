@@ -0,0 +1,83 @@
+import { ticsConfig } from '../configuration';
+import { Analysis, PolicyDecision, PolicyRule } from '../helper/interfaces';
+import { Outcome } from '../helper/enums';
+import { formatDiagnostic } from './diagnostics';
+
+// the behaviour of the action before the policy was configurable: approve a completed run in which none of the changed files
+// can be analyzed
+export const defaultPolicy = 'warning 5057 -> approve';
+
+let rules: PolicyRule[] = [];
+
+/**
+ * Parses the policy input into rules. Rules are separated by newlines or semicolons and have the form
+ * "<condition> -> <outcome>", where the condition is "warning <code>", "error <code>" or "exit code <code>".
+ * A code can contain x as wildcard for a digit (e.g. 5xxx) or be * to match any code.
+ * @throws Error naming the first rule that is invalid.
+ */
+export function loadPolicy(): void {
+  const policy = ticsConfig.policy ? ticsConfig.policy : defaultPolicy;
+
+  rules = policy
+    .split(/[\n;]/)
+    .map(rule => rule.trim())
+    .filter(rule => rule && !rule.startsWith('#'))
+    .map(parseRule);
+}
+
+/**
+ * Decides the outcome of a TiCS run that did not result in a quality gate, based on the first rule of the policy
+ * that matches the warnings, errors or exit code of the run. Warning rules only apply to runs that completed, a warning
+ * does not make up for a non-zero exit code.
+ * @param analysis The analysis of the run.
+ * @returns The decision, or undefined if no rule matches.
+ */
+export function evaluatePolicy(analysis: Analysis): PolicyDecision | undefined {
+  for (const rule of rules) {
+    if (rule.severity === 'warning' && !analysis.completed) continue;
+
+    if (rule.severity) {
+      const diagnostic = analysis.diagnostics.find(d => d.severity === rule.severity && d.code !== undefined && matchesCode(rule.code, d.code));
+      if (diagnostic) return { rule: rule.text, outcome: rule.outcome, reason: formatDiagnostic(diagnostic) };
+    } else if (analysis.statusCode >= 0 && matchesCode(rule.code, analysis.statusCode)) {
+      return { rule: rule.text, outcome: rule.outcome, reason: `TiCS exited with code ${analysis.statusCode}` };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses a single rule of the policy.
+ * @param text The rule.
+ * @returns The parsed rule.
+ */
+function parseRule(text: string): PolicyRule {
+  const match = text.match(/^(warning|error|exit\s*code)\s+([\dx]+|\*)\s*(?:->|→|=>)\s*(\w+)$/i);
+  if (!match) throw Error(`"${text}" is not a valid rule, expected "<warning|error|exit code> <code> -> <outcome>".`);
+
+  const outcome = match[3].toLowerCase();
+  if (!Object.values(Outcome).includes(outcome as Outcome)) {
+    throw Error(`"${text}" has an unknown outcome ${match[3]}. Options are ${Object.values(Outcome).join(', ')}.`);
+  }
+
+  const condition = match[1].toLowerCase();
+  return {
+    text: text,
+    severity: condition === 'warning' || condition === 'error' ? condition : undefined,
+    code: match[2].toLowerCase(),
+    outcome: outcome as Outcome
+  };
+}
+
+/**
+ * Checks if a code matches the code of a rule.
+ * @param pattern The code of the rule, with x as wildcard for a digit or * for any code.
+ * @param code The code to match.
+ * @returns true if the code matches.
+ */
+function matchesCode(pattern: string, code: number): boolean {
+  if (pattern === '*') return true;
+
+  const value = code.toString();
+  return value.length === pattern.length && [...pattern].every((char, index) => char === 'x' || char === value[index]);
+}
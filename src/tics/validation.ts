@@ -0,0 +1,175 @@
+import { Annotation, Condition, ConditionDetails, ConditionItem, Gate, Measure, QualityGate, ViewerVersion } from '../helper/interfaces';
+import { TicsResponseError } from './errors';
+
+type Check = (value: any, field: string) => void;
+
+/**
+ * Validates the response of the QualityGateStatus api.
+ * @param response Response retrieved from the viewer.
+ * @returns The response as quality gate.
+ * @throws TicsResponseError naming the first field that does not match.
+ */
+export function validateQualityGate(response: any): QualityGate {
+  return validate('QualityGateStatus', response, (qualityGate, field) => {
+    expectObject(qualityGate, field);
+    expectType(qualityGate.passed, `${field}.passed`, 'boolean');
+    expectType(qualityGate.message, `${field}.message`, 'string');
+    expectType(qualityGate.url, `${field}.url`, 'string');
+    expectArray(qualityGate.gates, `${field}.gates`, checkGate);
+    expectArray(qualityGate.annotationsApiV1Links, `${field}.annotationsApiV1Links`, (link, linkField) => {
+      expectObject(link, linkField);
+      expectType(link.url, `${linkField}.url`, 'string');
+    });
+  });
+}
+
+/**
+ * Validates the response of the Measure api.
+ * @param response Response retrieved from the viewer.
+ * @returns The response as measure.
+ * @throws TicsResponseError naming the first field that does not match.
+ */
+export function validateMeasure(response: any): Measure {
+  return validate('Measure', response, (measure, field) => {
+    expectObject(measure, field);
+    expectArray(measure.data, `${field}.data`, (value, valueField) => {
+      expectObject(value, valueField);
+      expectType(value.formattedValue, `${valueField}.formattedValue`, 'string');
+    });
+  });
+}
+
+/**
+ * Validates the response of an annotations api.
+ * @param response Response retrieved from the viewer.
+ * @returns The annotations in the response.
+ * @throws TicsResponseError naming the first field that does not match.
+ */
+export function validateAnnotations(response: any): Annotation[] {
+  return validate<{ data: Annotation[] }>('Annotations', response, (annotations, field) => {
+    expectObject(annotations, field);
+    expectArray(annotations.data, `${field}.data`, checkAnnotation);
+  }).data;
+}
+
+/**
+ * Validates the response of the version api.
+ * @param response Response retrieved from the viewer.
+ * @returns The response as viewer version.
+ * @throws TicsResponseError naming the first field that does not match.
+ */
+export function validateViewerVersion(response: any): ViewerVersion {
+  return validate('Version', response, (version, field) => {
+    expectObject(version, field);
+    expectType(version.version, `${field}.version`, 'string');
+  });
+}
+
+/**
+ * Runs the checks on the response and returns it with the given type if they pass.
+ * @param api Name of the api the response is retrieved from, used as root of the field names.
+ * @param response Response retrieved from the viewer.
+ * @param check Check to run on the response.
+ * @returns The validated response.
+ */
+function validate<T>(api: string, response: any, check: Check): T {
+  check(response, api);
+  return response as T;
+}
+
+/**
+ * Checks a gate of the quality gate.
+ * @param gate Gate to check.
+ * @param field Name of the field in the response.
+ */
+function checkGate(gate: Gate, field: string) {
+  expectObject(gate, field);
+  expectType(gate.name, `${field}.name`, 'string');
+  expectType(gate.passed, `${field}.passed`, 'boolean');
+  expectArray(gate.conditions, `${field}.conditions`, checkCondition);
+}
+
+/**
+ * Checks a condition of a gate.
+ * @param condition Condition to check.
+ * @param field Name of the field in the response.
+ */
+function checkCondition(condition: Condition, field: string) {
+  expectObject(condition, field);
+  expectType(condition.passed, `${field}.passed`, 'boolean');
+  expectType(condition.message, `${field}.message`, 'string');
+  if (condition.skipped !== undefined) expectType(condition.skipped, `${field}.skipped`, 'boolean');
+  if (condition.details !== undefined) checkConditionDetails(condition.details, `${field}.details`);
+}
+
+/**
+ * Checks the details of a condition.
+ * @param details Details to check.
+ * @param field Name of the field in the response.
+ */
+function checkConditionDetails(details: ConditionDetails, field: string) {
+  expectObject(details, field);
+  expectObject(details.dataKeys, `${field}.dataKeys`);
+  expectObject(details.dataKeys.actualValue, `${field}.dataKeys.actualValue`);
+  expectType(details.dataKeys.actualValue.title, `${field}.dataKeys.actualValue.title`, 'string');
+  expectType(details.itemCount, `${field}.itemCount`, 'number');
+  expectArray(details.items, `${field}.items`, (item: ConditionItem, itemField) => {
+    expectObject(item, itemField);
+    expectType(item.itemType, `${itemField}.itemType`, 'string');
+    expectType(item.name, `${itemField}.name`, 'string');
+    expectType(item.link, `${itemField}.link`, 'string');
+    expectObject(item.data, `${itemField}.data`);
+    expectObject(item.data.actualValue, `${itemField}.data.actualValue`);
+    expectType(item.data.actualValue.formattedValue, `${itemField}.data.actualValue.formattedValue`, 'string');
+  });
+}
+
+/**
+ * Checks an annotation.
+ * @param annotation Annotation to check.
+ * @param field Name of the field in the response.
+ */
+function checkAnnotation(annotation: Annotation, field: string) {
+  expectObject(annotation, field);
+  expectType(annotation.fullPath, `${field}.fullPath`, 'string');
+  expectType(annotation.line, `${field}.line`, 'number');
+  expectType(annotation.level, `${field}.level`, 'number');
+  expectType(annotation.rule, `${field}.rule`, 'string');
+  expectType(annotation.msg, `${field}.msg`, 'string');
+  expectType(annotation.type, `${field}.type`, 'string');
+  expectType(annotation.count, `${field}.count`, 'number');
+  if (annotation.category !== undefined) expectType(annotation.category, `${field}.category`, 'string');
+  if (annotation.endLine !== undefined) expectType(annotation.endLine, `${field}.endLine`, 'number');
+}
+
+/**
+ * Throws if the value is not a (non-null) object.
+ * @param value Value to check.
+ * @param field Name of the field in the response.
+ */
+function expectObject(value: any, field: string) {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new TicsResponseError(field, 'an object', value);
+  }
+}
+
+/**
+ * Throws if the value is not an array, otherwise checks each of its items.
+ * @param value Value to check.
+ * @param field Name of the field in the response.
+ * @param checkItem Check to run on each item.
+ */
+function expectArray(value: any, field: string, checkItem: Check) {
+  if (!Array.isArray(value)) throw new TicsResponseError(field, 'an array', value);
+  value.forEach((item, index) => checkItem(item, `${field}[${index}]`));
+}
+
+/**
+ * Throws if the value is not of the given primitive type.
+ * @param value Value to check.
+ * @param field Name of the field in the response.
+ * @param type Expected type of the value.
+ */
+function expectType(value: any, field: string, type: 'string' | 'number' | 'boolean') {
+  if (typeof value !== type) throw new TicsResponseError(field, `a ${type}`, value);
+}
@@ -6,7 +6,14 @@ jest.mock('../../src/configuration', () => {
       projectName: 'project',
       ticsConfiguration: 'http://localhost/tiobeweb/TiCS/api/cfg?name=default',
       calc: 'GATE',
-      pullRequestApproval: true
+      mode: 'client',
+      pullRequestApproval: true,
+      retryCount: 0,
+      retryDelay: 1,
+      analysisTimeout: 0,
+      hintsFile: '',
+      suppressionsFile: '',
+      policy: ''
     },
     githubConfig: {
       repo: 'test',
@@ -15,21 +22,35 @@ jest.mock('../../src/configuration', () => {
       branchname: '',
       basebranchname: '',
       branchdir: '',
+      refname: '',
+      defaultBranch: '',
       eventName: '',
       runnerOS: '',
-      pullRequestNumber: '1'
+      pullRequestNumber: '1',
+      baseSha: 'base',
+      commitSha: 'abcdef123456',
+      changedFilesCount: 0
     },
     octokit: {
       paginate: jest.fn(),
+      graphql: jest.fn(),
       rest: {
+        checks: {
+          create: jest.fn(),
+          update: jest.fn()
+        },
         pulls: {
           listFiles: () => {},
           listReviewComments: () => {},
+          listReviews: () => {},
           createReview: jest.fn(),
+          dismissReview: jest.fn(),
           deleteReviewComment: jest.fn()
         },
         issues: {
-          createComment: jest.fn()
+          listComments: () => {},
+          createComment: jest.fn(),
+          updateComment: jest.fn()
         }
       }
     },
@@ -44,25 +65,45 @@ jest.mock('@actions/core', () => {
     debug: jest.fn(),
     warning: jest.fn(),
     error: jest.fn(),
-    setFailed: jest.fn()
+    setFailed: jest.fn(),
+    setOutput: jest.fn(),
+    setSecret: jest.fn(),
+    summary: {
+      addRaw: jest.fn().mockReturnThis(),
+      addHeading: jest.fn().mockReturnThis(),
+      addTable: jest.fn().mockReturnThis(),
+      addDetails: jest.fn().mockReturnThis(),
+      addLink: jest.fn().mockReturnThis(),
+      addBreak: jest.fn().mockReturnThis(),
+      write: jest.fn()
+    }
   };
 });
 jest.mock('@actions/exec', () => {
   return {
-    exec: jest.fn()
+    exec: jest.fn(),
+    getExecOutput: jest.fn()
   };
 });
 jest.mock('node-fetch', () => jest.fn());
 jest.mock('fs', () => {
   return {
     writeFileSync: jest.fn(),
-    existsSync: jest.fn()
+    existsSync: jest.fn(),
+    readFileSync: jest.fn(),
+    mkdirSync: jest.fn(),
+    cpSync: jest.fn(),
+    rmSync: jest.fn()
   };
 });
 jest.mock('canonical-path', () => {
+  const canonicalPath: any = jest.requireActual('canonical-path');
   return {
     resolve: jest.fn(data => data),
-    normalize: jest.fn(data => data)
+    normalize: jest.fn(data => data),
+    dirname: jest.fn(canonicalPath.dirname),
+    join: jest.fn(canonicalPath.join),
+    relative: jest.fn(canonicalPath.relative)
   };
 });
 jest.mock('markdown-table', () => {
@@ -71,6 +112,6 @@ jest.mock('markdown-table', () => {
   };
 });
 jest.mock('proxy-agent', () => {
-  return jest.fn();
+  return jest.fn(() => ({ addRequest: jest.fn() }));
 });
 jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
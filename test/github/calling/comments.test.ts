@@ -0,0 +1,29 @@
+import { getPostedComments } from '../../../src/github/calling/comments';
+import { octokit } from '../../../src/configuration';
+import Logger from '../../../src/helper/logger';
+
+describe('getPostedComments', () => {
+  test('Should return single comment on getPostedComments', async () => {
+    (octokit.paginate as any).mockReturnValueOnce([{ id: 1 }]);
+
+    const response = await getPostedComments();
+    expect(response).toEqual([{ id: 1 }]);
+  });
+
+  test('Should be called with specific parameters on getPostedComments', async () => {
+    (octokit.paginate as any).mockReturnValueOnce();
+    const spy = jest.spyOn(octokit, 'paginate');
+
+    await getPostedComments();
+    expect(spy).toHaveBeenCalledWith(octokit.rest.issues.listComments, { repo: 'test', owner: 'tester', issue_number: '1' });
+  });
+
+  test('Should throw an error on getPostedComments', async () => {
+    const spy = jest.spyOn(Logger.Instance, 'error');
+    (octokit.paginate as any).mockImplementationOnce(() => {
+      throw new Error();
+    });
+    await getPostedComments();
+    expect(spy).toBeCalledTimes(1);
+  });
+});
@@ -1,7 +1,8 @@
 import * as fs from 'fs';
 import { resolve } from 'canonical-path';
 import { changedFilesToFile, getChangedFiles } from '../../../src/github/calling/pulls';
-import { octokit, ticsConfig } from '../../../src/configuration';
+import { githubConfig, octokit, ticsConfig } from '../../../src/configuration';
+import * as git from '../../../src/helper/git';
 import Logger from '../../../src/helper/logger';
 
 describe('getChangedFiles', () => {
@@ -76,6 +77,77 @@ describe('getChangedFiles', () => {
   });
 });
 
+describe('getChangedFiles from git', () => {
+  afterEach(() => {
+    ticsConfig.changedFilesProvider = '';
+    githubConfig.changedFilesCount = 0;
+  });
+
+  test('Should return changed files from git if the provider is git', async () => {
+    ticsConfig.changedFilesProvider = 'git';
+    const spyGit = jest.spyOn(git, 'getChangedFilesFromGit').mockResolvedValueOnce([{ filename: 'test.js', status: 'modified', changes: 1 } as any]);
+    const spyPaginate = jest.spyOn(octokit, 'paginate');
+
+    const response = await getChangedFiles();
+
+    expect(spyGit).toHaveBeenCalledTimes(1);
+    expect(spyPaginate).toHaveBeenCalledTimes(0);
+    expect(response).toEqual([{ filename: 'test.js', status: 'modified', changes: 1 }]);
+  });
+
+  test('Should call exit if the provider is git and git fails', async () => {
+    ticsConfig.changedFilesProvider = 'git';
+    jest.spyOn(git, 'getChangedFilesFromGit').mockRejectedValueOnce(new Error('no merge base'));
+    const spy = jest.spyOn(Logger.Instance, 'exit');
+
+    await getChangedFiles();
+
+    expect(spy).toHaveBeenCalledWith(expect.stringContaining('no merge base'));
+  });
+
+  test('Should fall back to git if a patch is missing in the GitHub API result', async () => {
+    (octokit.paginate as any).mockReturnValueOnce([{ filename: 'test.js', changes: 20000 }]);
+    const spyGit = jest
+      .spyOn(git, 'getChangedFilesFromGit')
+      .mockResolvedValueOnce([{ filename: 'test.js', status: 'modified', changes: 20000, patch: '@@' } as any]);
+
+    const response = await getChangedFiles();
+
+    expect(spyGit).toHaveBeenCalledTimes(1);
+    expect(response).toEqual([{ filename: 'test.js', status: 'modified', changes: 20000, patch: '@@' }]);
+  });
+
+  test('Should fall back to git if fewer files are returned than changed in the pull request', async () => {
+    githubConfig.changedFilesCount = 3001;
+    (octokit.paginate as any).mockReturnValueOnce([{ filename: 'test.js', changes: 1, patch: '@@' }]);
+    const spyGit = jest.spyOn(git, 'getChangedFilesFromGit').mockResolvedValueOnce([]);
+
+    await getChangedFiles();
+
+    expect(spyGit).toHaveBeenCalledTimes(1);
+  });
+
+  test('Should continue with the GitHub API result if the git fallback fails', async () => {
+    (octokit.paginate as any).mockReturnValueOnce([{ filename: 'test.js', changes: 20000 }]);
+    jest.spyOn(git, 'getChangedFilesFromGit').mockRejectedValueOnce(new Error('no merge base'));
+    const spy = jest.spyOn(Logger.Instance, 'warning');
+
+    const response = await getChangedFiles();
+
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(response).toEqual([{ filename: 'test.js', changes: 20000 }]);
+  });
+
+  test('Should not fall back to git if the GitHub API result is complete', async () => {
+    (octokit.paginate as any).mockReturnValueOnce([{ filename: 'test.js', changes: 1, patch: '@@' }]);
+    const spyGit = jest.spyOn(git, 'getChangedFilesFromGit');
+
+    await getChangedFiles();
+
+    expect(spyGit).toHaveBeenCalledTimes(0);
+  });
+});
+
 describe('changedFilesToFile', () => {
   test('Should return file location on changedFilesToFile', () => {
     (resolve as any).mockReturnValueOnce('/path/to/changedFiles.txt');
@@ -98,4 +170,30 @@ describe('changedFilesToFile', () => {
     changedFilesToFile([{ filename: 'test.js' }, { filename: 'test.js' }]);
     expect(spy).toHaveBeenCalledWith('/path/to/changedFiles.txt', 'test.js\ntest.js\n');
   });
+
+  test('Should write the paths relative to the root of the checkout', () => {
+    (resolve as any).mockReturnValueOnce('/path/to/changedFiles.txt');
+    (fs.existsSync as any).mockImplementation((path: string) => path === '/repo/.git');
+    const spy = jest.spyOn(fs, 'writeFileSync');
+
+    githubConfig.branchdir = '/repo';
+    changedFilesToFile([{ filename: 'sub/test.js' }, { filename: 'other/test.js' }]);
+    githubConfig.branchdir = '';
+    (fs.existsSync as any).mockReset();
+
+    expect(spy).toHaveBeenCalledWith('/path/to/changedFiles.txt', '/repo/sub/test.js\n/repo/other/test.js\n');
+  });
+
+  test('Should leave out the files outside of the branchDir', () => {
+    (resolve as any).mockReturnValueOnce('/path/to/changedFiles.txt');
+    (fs.existsSync as any).mockImplementation((path: string) => path === '/repo/.git');
+    const spy = jest.spyOn(fs, 'writeFileSync');
+
+    githubConfig.branchdir = '/repo/sub';
+    changedFilesToFile([{ filename: 'sub/test.js' }, { filename: 'other/test.js' }, { filename: 'subdir/test.js' }]);
+    githubConfig.branchdir = '';
+    (fs.existsSync as any).mockReset();
+
+    expect(spy).toHaveBeenCalledWith('/path/to/changedFiles.txt', '/repo/sub/test.js\n');
+  });
 });
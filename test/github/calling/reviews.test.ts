@@ -0,0 +1,29 @@
+import { getPostedReviews } from '../../../src/github/calling/reviews';
+import { octokit } from '../../../src/configuration';
+import Logger from '../../../src/helper/logger';
+
+describe('getPostedReviews', () => {
+  test('Should return single review on getPostedReviews', async () => {
+    (octokit.paginate as any).mockReturnValueOnce([{ id: 1 }]);
+
+    const response = await getPostedReviews();
+    expect(response).toEqual([{ id: 1 }]);
+  });
+
+  test('Should be called with specific parameters on getPostedReviews', async () => {
+    (octokit.paginate as any).mockReturnValueOnce();
+    const spy = jest.spyOn(octokit, 'paginate');
+
+    await getPostedReviews();
+    expect(spy).toHaveBeenCalledWith(octokit.rest.pulls.listReviews, { repo: 'test', owner: 'tester', pull_number: '1' });
+  });
+
+  test('Should throw an error on getPostedReviews', async () => {
+    const spy = jest.spyOn(Logger.Instance, 'error');
+    (octokit.paginate as any).mockImplementationOnce(() => {
+      throw new Error();
+    });
+    await getPostedReviews();
+    expect(spy).toBeCalledTimes(1);
+  });
+});
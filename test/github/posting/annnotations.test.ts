@@ -1,6 +1,7 @@
-import { deletePreviousReviewComments } from '../../../src/github/posting/annotations';
+import { deletePreviousReviewComments, getNewReviewComments } from '../../../src/github/posting/annotations';
 import { octokit } from '../../../src/configuration';
 import Logger from '../../../src/helper/logger';
+import { createFingerprintMarker } from '../../../src/helper/fingerprint';
 
 describe('deletePreviousReviewComments', () => {
   test('Should call deleteReviewComment once on deletePreviousReviewComments', async () => {
@@ -43,4 +44,51 @@ describe('deletePreviousReviewComments', () => {
 
     expect(spy).toBeCalledTimes(1);
   });
+
+  test('Should only delete review comments of annotations that are fixed', async () => {
+    const spy = jest.spyOn(octokit.rest.pulls, 'deleteReviewComment');
+
+    await deletePreviousReviewComments(
+      [
+        { id: 1, line: 10, body: `:warning: **TiCS: fixed\r\n${createFingerprintMarker('0000000000000001')}` },
+        { id: 2, line: 12, body: `:warning: **TiCS: still applies\r\n${createFingerprintMarker('0000000000000002')}` },
+        { id: 3, line: null, body: `:warning: **TiCS: outdated\r\n${createFingerprintMarker('0000000000000003')}` }
+      ],
+      [reviewComment('0000000000000002'), reviewComment('0000000000000003')]
+    );
+
+    expect(spy).toBeCalledTimes(2);
+    expect(spy).toBeCalledWith(expect.objectContaining({ comment_id: 1 }));
+    expect(spy).toBeCalledWith(expect.objectContaining({ comment_id: 3 }));
+  });
 });
+
+describe('getNewReviewComments', () => {
+  test('Should return all review comments if none are posted', () => {
+    const reviewComments = [reviewComment('0000000000000001')];
+
+    expect(getNewReviewComments(reviewComments, [])).toEqual(reviewComments);
+  });
+
+  test('Should not return review comments that are posted and still apply', () => {
+    const posted = [
+      { id: 1, line: 10, body: `:warning: **TiCS: still applies\r\n${createFingerprintMarker('0000000000000001')}` },
+      { id: 2, line: null, body: `:warning: **TiCS: outdated\r\n${createFingerprintMarker('0000000000000002')}` },
+      { id: 3, line: 12, body: `Reply quoting ${createFingerprintMarker('0000000000000003')}` }
+    ];
+
+    const response = getNewReviewComments(
+      [reviewComment('0000000000000001'), reviewComment('0000000000000002'), reviewComment('0000000000000003')],
+      posted
+    );
+
+    expect(response).toEqual([reviewComment('0000000000000002'), reviewComment('0000000000000003')]);
+  });
+});
+
+/**
+ * Creates a review comment with a fingerprint.
+ */
+function reviewComment(fingerprint: string) {
+  return { path: 'test.js', line: 1, body: `:warning: **TiCS: test violation\r\n${createFingerprintMarker(fingerprint)}` };
+}
@@ -0,0 +1,176 @@
+import { githubConfig, octokit } from '../../../src/configuration';
+import { postCheckRun, postNothingAnalyzedCheckRun } from '../../../src/github/posting/check';
+import { createFilesSummary, createLinkSummary, createQualityGateSummary, createSuppressedSummary } from '../../../src/helper/summary';
+import * as suppressions from '../../../src/helper/suppressions';
+import Logger from '../../../src/helper/logger';
+
+jest.mock('../../../src/helper/summary', () => {
+  return {
+    createFilesSummary: jest.fn(),
+    createLinkSummary: jest.fn(),
+    createQualityGateSummary: jest.fn(),
+    createSuppressedSummary: jest.fn(),
+    formatLines: jest.requireActual('../../../src/helper/summary').formatLines
+  };
+});
+
+const analysis = {
+  completed: true,
+  diagnostics: [],
+  statusCode: 0,
+  explorerUrl: 'url'
+};
+
+const qualityGate = {
+  passed: false,
+  message: 'Project failed 1 out of 1 quality gate',
+  url: 'url',
+  gates: [],
+  annotationsApiV1Links: []
+};
+
+const annotation = {
+  fullPath: 'HIE://project/main/src/test.js',
+  line: 10,
+  level: 1,
+  category: 'Naming',
+  type: 'CS',
+  rule: 'RULE_1',
+  msg: 'message',
+  count: 2
+};
+
+describe('postCheckRun', () => {
+  test('Should create a completed check run with the quality gate as summary', async () => {
+    (createQualityGateSummary as any).mockReturnValueOnce('GateSummary...\n');
+    (createLinkSummary as any).mockReturnValueOnce('LinkSummary...\n');
+    (createFilesSummary as any).mockReturnValueOnce('FilesSummary...\n');
+    const spy = jest.spyOn(octokit.rest.checks, 'create').mockResolvedValueOnce({ data: { id: 1 } } as any);
+
+    await postCheckRun(analysis, [''], qualityGate, undefined);
+
+    expect(spy).toBeCalledWith({
+      owner: githubConfig.owner,
+      repo: githubConfig.reponame,
+      name: 'TICS',
+      head_sha: githubConfig.commitSha,
+      details_url: 'url',
+      status: 'completed',
+      conclusion: 'failure',
+      output: {
+        title: 'Project failed 1 out of 1 quality gate',
+        summary: 'GateSummary...\n',
+        text: 'LinkSummary...\nFilesSummary...\n',
+        annotations: []
+      }
+    });
+  });
+
+  test('Should succeed if the quality gate passed', async () => {
+    const spy = jest.spyOn(octokit.rest.checks, 'create').mockResolvedValueOnce({ data: { id: 1 } } as any);
+
+    await postCheckRun(analysis, [''], { ...qualityGate, passed: true }, undefined);
+
+    expect(spy).toBeCalledWith(expect.objectContaining({ conclusion: 'success' }));
+  });
+
+  test('Should map annotations to check run annotations', async () => {
+    const spy = jest.spyOn(octokit.rest.checks, 'create').mockResolvedValueOnce({ data: { id: 1 } } as any);
+
+    await postCheckRun(analysis, [''], qualityGate, [
+      annotation,
+      { ...annotation, line: 0, level: 3, count: 1 },
+      { ...annotation, level: 5, endLine: 12 }
+    ]);
+
+    const annotations = (spy.mock.calls[0][0] as any).output.annotations;
+    expect(annotations[0]).toEqual({
+      path: 'src/test.js',
+      start_line: 10,
+      end_line: 10,
+      annotation_level: 'failure',
+      title: 'TiCS: CS violation: RULE_1',
+      message: 'message',
+      raw_details: '(2x) Line: 10, Rule: RULE_1, Level: 1, Category: Naming'
+    });
+    expect(annotations[1]).toEqual(expect.objectContaining({ start_line: 1, annotation_level: 'warning' }));
+    expect(annotations[2]).toEqual(
+      expect.objectContaining({ start_line: 10, end_line: 12, annotation_level: 'notice', raw_details: expect.stringContaining('Lines: 10-12') })
+    );
+  });
+
+  test('Should attach the annotations in batches of 50', async () => {
+    const spyCreate = jest.spyOn(octokit.rest.checks, 'create').mockResolvedValueOnce({ data: { id: 1 } } as any);
+    const spyUpdate = jest.spyOn(octokit.rest.checks, 'update');
+
+    await postCheckRun(analysis, [''], qualityGate, Array(120).fill(annotation));
+
+    expect((spyCreate.mock.calls[0][0] as any).output.annotations).toHaveLength(50);
+    expect(spyUpdate).toBeCalledTimes(2);
+    expect(spyUpdate).toBeCalledWith(expect.objectContaining({ check_run_id: 1 }));
+    expect((spyUpdate.mock.calls[0][0] as any).output.annotations).toHaveLength(50);
+    expect((spyUpdate.mock.calls[1][0] as any).output.annotations).toHaveLength(20);
+  });
+
+  test('Should leave out suppressed annotations and add the suppressed summary', async () => {
+    (createLinkSummary as any).mockReturnValueOnce('LinkSummary...\n');
+    (createSuppressedSummary as any).mockReturnValueOnce('SuppressedSummary...\n');
+    (createFilesSummary as any).mockReturnValueOnce('FilesSummary...\n');
+    const suppressed = [{ suppression: { rule: 'RULE_2' }, count: 1 }];
+    const spySuppressions = jest
+      .spyOn(suppressions, 'applySuppressions')
+      .mockImplementationOnce(annotations => ({ annotations: annotations.slice(0, 1), suppressed: suppressed }));
+    const spy = jest.spyOn(octokit.rest.checks, 'create').mockResolvedValueOnce({ data: { id: 1 } } as any);
+
+    await postCheckRun(analysis, [''], qualityGate, [annotation, { ...annotation, rule: 'RULE_2' }]);
+
+    expect(spySuppressions).toBeCalledWith([expect.objectContaining({ path: 'src/test.js' }), expect.objectContaining({ path: 'src/test.js' })]);
+    expect(createSuppressedSummary).toBeCalledWith(suppressed);
+    const output = (spy.mock.calls[0][0] as any).output;
+    expect(output.annotations).toHaveLength(1);
+    expect(output.text).toEqual('LinkSummary...\nSuppressedSummary...\nFilesSummary...\n');
+  });
+
+  test('Should throw an error on postCheckRun', async () => {
+    jest.spyOn(octokit.rest.checks, 'create').mockImplementationOnce(() => {
+      throw new Error();
+    });
+    const spy = jest.spyOn(Logger.Instance, 'error');
+
+    await postCheckRun(analysis, [''], qualityGate, undefined);
+
+    expect(spy).toBeCalledTimes(1);
+  });
+});
+
+describe('postNothingAnalyzedCheckRun', () => {
+  test('Should create a check run with the message as summary', async () => {
+    const spy = jest.spyOn(octokit.rest.checks, 'create');
+
+    await postNothingAnalyzedCheckRun('message', 'success');
+
+    expect(spy).toBeCalledWith({
+      owner: githubConfig.owner,
+      repo: githubConfig.reponame,
+      name: 'TICS',
+      head_sha: githubConfig.commitSha,
+      status: 'completed',
+      conclusion: 'success',
+      output: {
+        title: 'TiCS Analysis',
+        summary: 'message'
+      }
+    });
+  });
+
+  test('Should throw an error on postNothingAnalyzedCheckRun', async () => {
+    jest.spyOn(octokit.rest.checks, 'create').mockImplementationOnce(() => {
+      throw new Error();
+    });
+    const spy = jest.spyOn(Logger.Instance, 'error');
+
+    await postNothingAnalyzedCheckRun('message', 'failure');
+
+    expect(spy).toBeCalledTimes(1);
+  });
+});
@@ -1,11 +1,15 @@
 import { githubConfig, octokit } from '../../../src/configuration';
-import { postErrorComment } from '../../../src/github/posting/comment';
-import { createErrorSummary } from '../../../src/helper/summary';
+import { postErrorComment, postSummaryComment } from '../../../src/github/posting/comment';
+import { createErrorSummary, createRunHistorySummary, getRunHistory } from '../../../src/helper/summary';
+import * as comments from '../../../src/github/calling/comments';
 import Logger from '../../../src/helper/logger';
+import { Analysis } from '../../../src/helper/interfaces';
 
 jest.mock('../../../src/helper/summary', () => {
   return {
-    createErrorSummary: jest.fn()
+    createErrorSummary: jest.fn(),
+    createRunHistorySummary: jest.fn(),
+    getRunHistory: jest.fn()
   };
 });
 
@@ -13,10 +17,9 @@ describe('postErrorComment', () => {
   test('Should call createComment once', async () => {
     (createErrorSummary as any).mockReturnValueOnce('body');
     const spy = jest.spyOn(octokit.rest.issues, 'createComment');
-    const analysis = {
+    const analysis: Analysis = {
       completed: true,
-      errorList: ['error1'],
-      warningList: [],
+      diagnostics: [{ severity: 'error', message: 'error1' }],
       statusCode: 0
     };
     await postErrorComment(analysis);
@@ -26,10 +29,9 @@ describe('postErrorComment', () => {
   test('Should call createComment with values', async () => {
     (createErrorSummary as any).mockReturnValueOnce('body');
     const spy = jest.spyOn(octokit.rest.issues, 'createComment');
-    const analysis = {
+    const analysis: Analysis = {
       completed: true,
-      errorList: ['error1'],
-      warningList: [],
+      diagnostics: [{ severity: 'error', message: 'error1' }],
       statusCode: 0
     };
     await postErrorComment(analysis);
@@ -49,10 +51,9 @@ describe('postErrorComment', () => {
     });
     const spy = jest.spyOn(Logger.Instance, 'error');
 
-    const analysis = {
+    const analysis: Analysis = {
       completed: false,
-      errorList: ['error1'],
-      warningList: [],
+      diagnostics: [{ severity: 'error', message: 'error1' }],
       statusCode: 0
     };
     await postErrorComment(analysis);
@@ -60,3 +61,71 @@ describe('postErrorComment', () => {
     expect(spy).toBeCalledTimes(1);
   });
 });
+
+describe('postSummaryComment', () => {
+  const previousRun = { sha: '123456', passed: false, time: '2023-01-01T00:00:00.000Z' };
+
+  beforeEach(() => {
+    (getRunHistory as any).mockImplementation((body: string) => (body.includes('marker') ? [previousRun] : undefined));
+    (createRunHistorySummary as any).mockReturnValue('History...');
+  });
+
+  test('Should call createComment if there is no previous summary', async () => {
+    jest.spyOn(comments, 'getPostedComments').mockResolvedValueOnce([{ id: 1, body: 'other comment' }] as any);
+    const spyCreate = jest.spyOn(octokit.rest.issues, 'createComment');
+    const spyUpdate = jest.spyOn(octokit.rest.issues, 'updateComment');
+
+    await postSummaryComment('body', true);
+
+    expect(spyUpdate).toBeCalledTimes(0);
+    expect(spyCreate).toBeCalledWith({
+      owner: githubConfig.owner,
+      repo: githubConfig.reponame,
+      issue_number: githubConfig.pullRequestNumber,
+      body: 'bodyHistory...'
+    });
+    expect(createRunHistorySummary).toBeCalledWith([{ sha: githubConfig.commitSha, passed: true, time: expect.any(String) }]);
+  });
+
+  test('Should call updateComment and extend the history if there is a previous summary', async () => {
+    jest.spyOn(comments, 'getPostedComments').mockResolvedValueOnce([
+      { id: 1, body: 'other comment' },
+      { id: 2, body: 'summary with marker' }
+    ] as any);
+    const spyCreate = jest.spyOn(octokit.rest.issues, 'createComment');
+    const spyUpdate = jest.spyOn(octokit.rest.issues, 'updateComment');
+
+    await postSummaryComment('body', true);
+
+    expect(spyCreate).toBeCalledTimes(0);
+    expect(spyUpdate).toBeCalledWith({
+      owner: githubConfig.owner,
+      repo: githubConfig.reponame,
+      comment_id: 2,
+      body: 'bodyHistory...'
+    });
+    expect(createRunHistorySummary).toBeCalledWith([previousRun, { sha: githubConfig.commitSha, passed: true, time: expect.any(String) }]);
+  });
+
+  test('Should only keep the last ten runs in the history', async () => {
+    (getRunHistory as any).mockImplementation(() => Array(10).fill(previousRun));
+    jest.spyOn(comments, 'getPostedComments').mockResolvedValueOnce([{ id: 2, body: 'summary with marker' }] as any);
+
+    await postSummaryComment('body', true);
+
+    expect((createRunHistorySummary as any).mock.calls[0][0].length).toEqual(10);
+    expect((createRunHistorySummary as any).mock.calls[0][0][9].sha).toEqual(githubConfig.commitSha);
+  });
+
+  test('Should throw an error on postSummaryComment', async () => {
+    jest.spyOn(comments, 'getPostedComments').mockResolvedValueOnce([]);
+    jest.spyOn(octokit.rest.issues, 'createComment').mockImplementationOnce(() => {
+      throw new Error();
+    });
+    const spy = jest.spyOn(Logger.Instance, 'error');
+
+    await postSummaryComment('body', false);
+
+    expect(spy).toBeCalledTimes(1);
+  });
+});
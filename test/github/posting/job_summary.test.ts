@@ -0,0 +1,187 @@
+import { summary } from '@actions/core';
+import { postErrorJobSummary, postJobSummary, postQualityGateJobSummary } from '../../../src/github/posting/job_summary';
+import { createErrorSummary } from '../../../src/helper/summary';
+import Logger from '../../../src/helper/logger';
+import { Analysis } from '../../../src/helper/interfaces';
+
+jest.mock('../../../src/helper/summary', () => {
+  return {
+    createErrorSummary: jest.fn(),
+    formatLineRange: jest.requireActual('../../../src/helper/summary').formatLineRange
+  };
+});
+
+const analysis: Analysis = {
+  completed: true,
+  diagnostics: [],
+  statusCode: 0,
+  explorerUrl: 'url'
+};
+
+const qualityGate = {
+  passed: false,
+  message: 'message',
+  url: 'url',
+  gates: [
+    {
+      name: 'Coding Standards',
+      passed: false,
+      conditions: [
+        {
+          passed: false,
+          message: 'condition 1',
+          details: {
+            dataKeys: { actualValue: { title: 'Coding Standard Violations' } },
+            itemCount: 2,
+            items: [
+              { itemType: 'file', name: 'test.js', link: 'link', data: { actualValue: { formattedValue: '+4' } } },
+              { itemType: 'project', name: 'project', link: 'link', data: { actualValue: { formattedValue: '+4' } } }
+            ]
+          }
+        },
+        { passed: true, message: 'condition 2' },
+        { passed: true, skipped: true, message: 'condition 3' }
+      ]
+    }
+  ],
+  annotationsApiV1Links: []
+};
+
+describe('postJobSummary', () => {
+  test('Should write the quality gate with a table of conditions', async () => {
+    const spyHeading = jest.spyOn(summary, 'addHeading');
+    const spyTable = jest.spyOn(summary, 'addTable');
+    const spyWrite = jest.spyOn(summary, 'write');
+
+    await postJobSummary(analysis, [], qualityGate, undefined);
+
+    expect(spyHeading).toBeCalledWith('TiCS Quality Gate', 2);
+    expect(spyHeading).toBeCalledWith('❌ Failed', 3);
+    expect(spyHeading).toBeCalledWith('Coding Standards', 3);
+    expect(spyTable).toBeCalledWith([
+      [
+        { data: 'Status', header: true },
+        { data: 'Condition', header: true }
+      ],
+      ['❌ Failed', 'condition 1'],
+      ['✔️ Passed', 'condition 2']
+    ]);
+    expect(spyWrite).toBeCalledTimes(1);
+  });
+
+  test('Should write the files of a condition in an expandable area', async () => {
+    const spyDetails = jest.spyOn(summary, 'addDetails');
+
+    await postJobSummary(analysis, [], qualityGate, undefined);
+
+    expect(spyDetails).toBeCalledWith(
+      '❌ Failed condition 1',
+      '<table><tr><th>File</th><th>Coding Standard Violations</th></tr><tr><td><a href="<url>/link">test.js</a></td><td>+4</td></tr></table>'
+    );
+  });
+
+  test('Should write the link and the analyzed files', async () => {
+    const spyLink = jest.spyOn(summary, 'addLink');
+    const spyDetails = jest.spyOn(summary, 'addDetails');
+
+    await postJobSummary(analysis, ['b.js', 'a.js'], { ...qualityGate, gates: [] }, undefined);
+
+    expect(spyLink).toBeCalledWith('See the results in the TiCS Viewer', 'url');
+    expect(spyDetails).toBeCalledWith('The following files have been checked:', '<ul><li>a.js</li><li>b.js</li></ul>');
+  });
+
+  test('Should write the unpostable annotations in a table', async () => {
+    const spyTable = jest.spyOn(summary, 'addTable');
+    const unpostable = [
+      { path: 'test.js', line: 1, level: 1, category: 'Naming', type: 'CS', rule: 'RULE_1', displayCount: '(2x) ', msg: 'message' }
+    ];
+
+    await postJobSummary({ ...analysis, explorerUrl: undefined }, [], { ...qualityGate, gates: [] }, { postable: [], unpostable: unpostable });
+
+    expect(spyTable).toBeCalledTimes(1);
+    expect((spyTable.mock.calls[0][0] as any)[1]).toEqual(['test.js', '1', '1', 'Naming', 'CS violation: RULE_1 (2x)', 'message']);
+  });
+
+  test('Should write an empty cell for an unpostable annotation without category', async () => {
+    const spyTable = jest.spyOn(summary, 'addTable');
+    const unpostable = [{ path: 'test.js', line: 1, level: 1, type: 'CS', rule: 'RULE_1', displayCount: '', msg: 'message' }];
+
+    await postJobSummary({ ...analysis, explorerUrl: undefined }, [], { ...qualityGate, gates: [] }, { postable: [], unpostable: unpostable });
+
+    expect((spyTable.mock.calls[0][0] as any)[1]).toEqual(['test.js', '1', '1', '', 'CS violation: RULE_1', 'message']);
+  });
+
+  test('Should write the suppressed annotations in a table', async () => {
+    const spyTable = jest.spyOn(summary, 'addTable');
+    const suppressed = [{ suppression: { rule: 'RULE_1', path: 'src/**', reason: 'False positive' }, count: 2 }];
+
+    await postJobSummary(
+      { ...analysis, explorerUrl: undefined },
+      [],
+      { ...qualityGate, gates: [] },
+      { postable: [], unpostable: [], suppressed: suppressed }
+    );
+
+    expect(spyTable).toBeCalledTimes(1);
+    expect((spyTable.mock.calls[0][0] as any)[1]).toEqual(['rule: RULE_1, path: src/**', 'False positive', '', '2']);
+  });
+
+  test('Should throw an error on write', async () => {
+    jest.spyOn(summary, 'write').mockImplementationOnce(() => {
+      throw new Error();
+    });
+    const spy = jest.spyOn(Logger.Instance, 'error');
+
+    await postJobSummary(analysis, [], qualityGate, undefined);
+
+    expect(spy).toBeCalledTimes(1);
+  });
+});
+
+describe('postQualityGateJobSummary', () => {
+  test('Should write the quality gate summary to the job summary', async () => {
+    const spyHeading = jest.spyOn(summary, 'addHeading');
+    const spyWrite = jest.spyOn(summary, 'write');
+
+    await postQualityGateJobSummary({ ...qualityGate, passed: true });
+
+    expect(spyHeading).toBeCalledWith('✔️ Passed', 3);
+    expect(spyWrite).toBeCalledTimes(1);
+  });
+
+  test('Should throw an error on write', async () => {
+    jest.spyOn(summary, 'write').mockImplementationOnce(() => {
+      throw new Error();
+    });
+    const spy = jest.spyOn(Logger.Instance, 'error');
+
+    await postQualityGateJobSummary(qualityGate);
+
+    expect(spy).toBeCalledTimes(1);
+  });
+});
+
+describe('postErrorJobSummary', () => {
+  test('Should write the error summary to the job summary', async () => {
+    (createErrorSummary as any).mockReturnValueOnce('ErrorSummary...\n');
+    const spyAdd = jest.spyOn(summary, 'addRaw');
+    const spyWrite = jest.spyOn(summary, 'write');
+
+    await postErrorJobSummary({ ...analysis, completed: false, diagnostics: [{ severity: 'error', message: 'error' }] });
+
+    expect(createErrorSummary).toBeCalledWith([{ severity: 'error', message: 'error' }]);
+    expect(spyAdd).toBeCalledWith('ErrorSummary...\n');
+    expect(spyWrite).toBeCalledTimes(1);
+  });
+
+  test('Should throw an error on write', async () => {
+    jest.spyOn(summary, 'write').mockImplementationOnce(() => {
+      throw new Error();
+    });
+    const spy = jest.spyOn(Logger.Instance, 'error');
+
+    await postErrorJobSummary(analysis);
+
+    expect(spy).toBeCalledTimes(1);
+  });
+});
@@ -0,0 +1,93 @@
+import { setOutput } from '@actions/core';
+import { writeFileSync } from 'fs';
+import { setResultOutputs } from '../../../src/github/posting/outputs';
+import Logger from '../../../src/helper/logger';
+
+const analysis = {
+  completed: true,
+  diagnostics: [],
+  statusCode: 0,
+  explorerUrl: 'url'
+};
+
+const qualityGate = {
+  passed: false,
+  message: 'message',
+  url: 'url',
+  gates: [
+    {
+      name: 'Coding Standards',
+      passed: false,
+      conditions: [
+        {
+          passed: false,
+          message: 'condition 1',
+          details: { dataKeys: { actualValue: { title: 'Coding Standard Violations' } }, itemCount: 2, items: [] }
+        },
+        { passed: true, skipped: true, message: 'condition 2' }
+      ]
+    },
+    {
+      name: 'Compiler Warnings',
+      passed: true,
+      conditions: [
+        { passed: true, message: 'condition 3', details: { dataKeys: { actualValue: { title: 'Compiler Warnings' } }, itemCount: 0, items: [] } }
+      ]
+    }
+  ],
+  annotationsApiV1Links: []
+};
+
+describe('setResultOutputs', () => {
+  test('Should set the outputs of the action', () => {
+    const reviewComments = { postable: [{ path: 'test.js', line: 1, body: 'body' }], unpostable: [{}, {}] };
+
+    setResultOutputs(analysis, ['test.js', 'other.js'], qualityGate, reviewComments, []);
+
+    expect(setOutput).toBeCalledWith('passed', false);
+    expect(setOutput).toBeCalledWith('message', 'message');
+    expect(setOutput).toBeCalledWith('explorerUrl', 'url');
+    expect(setOutput).toBeCalledWith('analyzedFiles', 2);
+    expect(setOutput).toBeCalledWith(
+      'conditions',
+      JSON.stringify([
+        { gate: 'Coding Standards', message: 'condition 1', passed: false, skipped: false, count: 2 },
+        { gate: 'Coding Standards', message: 'condition 2', passed: true, skipped: true, count: 0 },
+        { gate: 'Compiler Warnings', message: 'condition 3', passed: true, skipped: false, count: 0 }
+      ])
+    );
+    expect(setOutput).toBeCalledWith('failedConditions', 1);
+    expect(setOutput).toBeCalledWith('postableAnnotations', 1);
+    expect(setOutput).toBeCalledWith('unpostableAnnotations', 2);
+    expect(setOutput).toBeCalledWith('resultFile', 'tics-result.json');
+  });
+
+  test('Should write the full result to a file', () => {
+    setResultOutputs({ ...analysis, explorerUrl: undefined }, [], qualityGate, undefined, undefined);
+
+    const result = JSON.parse((writeFileSync as any).mock.calls[0][1]);
+    expect((writeFileSync as any).mock.calls[0][0]).toEqual('tics-result.json');
+    expect(result).toEqual({
+      passed: false,
+      message: 'message',
+      analyzedFiles: [],
+      qualityGate: qualityGate,
+      annotations: [],
+      reviewComments: { postable: [], unpostable: [] }
+    });
+    expect(setOutput).toBeCalledWith('explorerUrl', '');
+    expect(setOutput).toBeCalledWith('postableAnnotations', 0);
+  });
+
+  test('Should throw an error on writing the result file', () => {
+    (writeFileSync as any).mockImplementationOnce(() => {
+      throw new Error();
+    });
+    const spy = jest.spyOn(Logger.Instance, 'error');
+
+    setResultOutputs(analysis, [], qualityGate, undefined, undefined);
+
+    expect(spy).toBeCalledTimes(1);
+    expect(setOutput).not.toBeCalledWith('resultFile', expect.anything());
+  });
+});
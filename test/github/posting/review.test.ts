@@ -1,15 +1,30 @@
 import { githubConfig, octokit, ticsConfig } from '../../../src/configuration';
-import { postNothingAnalyzedReview, postReview } from '../../../src/github/posting/review';
-import { createFilesSummary, createLinkSummary, createUnpostableReviewCommentsSummary, createQualityGateSummary } from '../../../src/helper/summary';
+import { dismissPreviousReviews, postNothingAnalyzedReview, postReview } from '../../../src/github/posting/review';
+import * as comment from '../../../src/github/posting/comment';
+import * as reviews from '../../../src/github/calling/reviews';
+import {
+  createFilesSummary,
+  createLinkSummary,
+  createUnpostableReviewCommentsSummary,
+  createQualityGateSummary,
+  createRunDeltaSummary,
+  createRunStateMarker,
+  getRunState
+} from '../../../src/helper/summary';
 import { Events } from '../../../src/helper/enums';
 import Logger from '../../../src/helper/logger';
+import { Analysis } from '../../../src/helper/interfaces';
 
 jest.mock('../../../src/helper/summary', () => {
   return {
     createQualityGateSummary: jest.fn(),
     createLinkSummary: jest.fn(),
     createUnpostableReviewCommentsSummary: jest.fn(),
-    createFilesSummary: jest.fn()
+    createFilesSummary: jest.fn(),
+    createRunState: jest.fn(),
+    createRunDeltaSummary: jest.fn(),
+    createRunStateMarker: jest.fn(() => ''),
+    getRunState: jest.fn()
   };
 });
 
@@ -21,10 +36,9 @@ describe('postReview', () => {
 
     const spy = jest.spyOn(octokit.rest.pulls, 'createReview');
 
-    const analysis = {
+    const analysis: Analysis = {
       completed: true,
-      errorList: ['error1'],
-      warningList: [],
+      diagnostics: [{ severity: 'error', message: 'error1' }],
       statusCode: 0,
       explorerUrl: 'url'
     };
@@ -46,10 +60,9 @@ describe('postReview', () => {
 
     const spy = jest.spyOn(octokit.rest.pulls, 'createReview');
 
-    const analysis = {
+    const analysis: Analysis = {
       completed: true,
-      errorList: ['error1'],
-      warningList: [],
+      diagnostics: [{ severity: 'error', message: 'error1' }],
       statusCode: 0,
       explorerUrl: 'url'
     };
@@ -80,10 +93,9 @@ describe('postReview', () => {
 
     const spy = jest.spyOn(octokit.rest.pulls, 'createReview');
 
-    const analysis = {
+    const analysis: Analysis = {
       completed: true,
-      errorList: ['error1'],
-      warningList: [],
+      diagnostics: [{ severity: 'error', message: 'error1' }],
       statusCode: 0,
       explorerUrl: 'url'
     };
@@ -110,6 +122,36 @@ describe('postReview', () => {
     expect(spy).toBeCalledWith(calledWith);
   });
 
+  test('Should add the changes since the previous review and the state of this run', async () => {
+    (createQualityGateSummary as any).mockReturnValueOnce('GateSummary...\n');
+    (createLinkSummary as any).mockReturnValueOnce('LinkSummary...\n');
+    (createRunDeltaSummary as any).mockReturnValueOnce('DeltaSummary...\n');
+    (createFilesSummary as any).mockReturnValueOnce('FilesSummary...\n');
+    (createRunStateMarker as any).mockReturnValueOnce('<!-- state -->');
+    (getRunState as any).mockReturnValueOnce(undefined).mockReturnValueOnce({ conditions: [] });
+    jest.spyOn(reviews, 'getPostedReviews').mockResolvedValueOnce([{ body: 'state' }, { body: 'no state' }] as any);
+
+    const spy = jest.spyOn(octokit.rest.pulls, 'createReview');
+
+    const analysis: Analysis = {
+      completed: true,
+      diagnostics: [],
+      statusCode: 0,
+      explorerUrl: 'url'
+    };
+    const qualityGate = {
+      passed: true,
+      message: 'message',
+      url: 'url',
+      gates: [],
+      annotationsApiV1Links: []
+    };
+    await postReview(analysis, [''], qualityGate, undefined);
+
+    expect(getRunState).toHaveBeenNthCalledWith(1, 'no state');
+    expect(spy).toBeCalledWith(expect.objectContaining({ body: 'GateSummary...\nLinkSummary...\nDeltaSummary...\nFilesSummary...\n<!-- state -->' }));
+  });
+
   test('Should call createReview with type COMMENT if pullRequestApproval is set to false', async () => {
     (createQualityGateSummary as any).mockReturnValueOnce('GateSummary...\n');
     (createLinkSummary as any).mockReturnValueOnce('LinkSummary...\n');
@@ -120,10 +162,9 @@ describe('postReview', () => {
 
     const spy = jest.spyOn(octokit.rest.pulls, 'createReview');
 
-    const analysis = {
+    const analysis: Analysis = {
       completed: true,
-      errorList: ['error1'],
-      warningList: [],
+      diagnostics: [{ severity: 'error', message: 'error1' }],
       statusCode: 0,
       explorerUrl: 'url'
     };
@@ -161,10 +202,9 @@ describe('postReview', () => {
     });
     const spy = jest.spyOn(Logger.Instance, 'error');
 
-    const analysis = {
+    const analysis: Analysis = {
       completed: false,
-      errorList: ['error1'],
-      warningList: [],
+      diagnostics: [{ severity: 'error', message: 'error1' }],
       statusCode: 0,
       explorerUrl: undefined
     };
@@ -247,3 +287,143 @@ describe('postNothingAnalyzedReview', () => {
     expect(spy).toBeCalledTimes(1);
   });
 });
+
+describe('postReview with sticky summary', () => {
+  const analysis: Analysis = {
+    completed: true,
+    diagnostics: [],
+    statusCode: 0,
+    explorerUrl: 'url'
+  };
+  const qualityGate = {
+    passed: false,
+    message: 'message',
+    url: 'url',
+    gates: [],
+    annotationsApiV1Links: []
+  };
+
+  beforeAll(() => {
+    ticsConfig.stickySummary = true;
+  });
+
+  afterAll(() => {
+    ticsConfig.stickySummary = false;
+    ticsConfig.pullRequestApproval = true;
+  });
+
+  test('Should post the summary as comment and a short review with the verdict', async () => {
+    (createQualityGateSummary as any).mockReturnValueOnce('GateSummary...\n');
+    (createLinkSummary as any).mockReturnValueOnce('LinkSummary...\n');
+    (createFilesSummary as any).mockReturnValueOnce('FilesSummary...\n');
+    jest.spyOn(reviews, 'getPostedReviews').mockResolvedValueOnce([]);
+    const spySummary = jest.spyOn(comment, 'postSummaryComment').mockImplementationOnce(() => Promise.resolve());
+    const spyReview = jest.spyOn(octokit.rest.pulls, 'createReview');
+
+    ticsConfig.pullRequestApproval = true;
+    await postReview(analysis, [''], qualityGate, { postable: [], unpostable: [] });
+
+    expect(spySummary).toBeCalledWith('GateSummary...\nLinkSummary...\nFilesSummary...\n', false);
+    expect(spyReview).toBeCalledWith({
+      owner: githubConfig.owner,
+      repo: githubConfig.reponame,
+      pull_number: githubConfig.pullRequestNumber,
+      event: Events.REQUEST_CHANGES,
+      body: expect.stringContaining(':x: Failed'),
+      comments: []
+    });
+  });
+
+  test('Should not post a review if there is nothing to approve or comment', async () => {
+    jest.spyOn(reviews, 'getPostedReviews').mockResolvedValueOnce([]);
+    jest.spyOn(comment, 'postSummaryComment').mockImplementationOnce(() => Promise.resolve());
+    const spyReview = jest.spyOn(octokit.rest.pulls, 'createReview');
+
+    ticsConfig.pullRequestApproval = false;
+    await postReview(analysis, [''], qualityGate, { postable: [], unpostable: [] });
+
+    expect(spyReview).toBeCalledTimes(0);
+  });
+
+  test('Should post a review with the review comments', async () => {
+    jest.spyOn(reviews, 'getPostedReviews').mockResolvedValueOnce([]);
+    jest.spyOn(comment, 'postSummaryComment').mockImplementationOnce(() => Promise.resolve());
+    const spyReview = jest.spyOn(octokit.rest.pulls, 'createReview');
+
+    ticsConfig.pullRequestApproval = false;
+    const postable = [{ path: 'test.js', line: 1, body: 'body' }];
+    await postReview(analysis, [''], qualityGate, { postable: postable, unpostable: [] });
+
+    expect(spyReview).toBeCalledWith(expect.objectContaining({ event: Events.COMMENT, comments: postable }));
+  });
+
+  test('Should dismiss the reviews of previous runs', async () => {
+    jest.spyOn(reviews, 'getPostedReviews').mockResolvedValueOnce([{ id: 1, body: '## TiCS Quality Gate', state: 'APPROVED' }] as any);
+    jest.spyOn(comment, 'postSummaryComment').mockImplementationOnce(() => Promise.resolve());
+    const spyDismiss = jest.spyOn(octokit.rest.pulls, 'dismissReview');
+
+    await postReview(analysis, [''], qualityGate, undefined);
+
+    expect(spyDismiss).toBeCalledTimes(1);
+  });
+
+  test('Should post the nothing analyzed message as summary comment', async () => {
+    jest.spyOn(reviews, 'getPostedReviews').mockResolvedValueOnce([]);
+    const spySummary = jest.spyOn(comment, 'postSummaryComment').mockImplementationOnce(() => Promise.resolve());
+
+    await postNothingAnalyzedReview('message', Events.APPROVE);
+
+    expect(spySummary).toBeCalledWith('## TiCS Analysis\n\n### :heavy_check_mark: Passed \n\nmessage', true);
+  });
+});
+
+describe('dismissPreviousReviews', () => {
+  test('Should dismiss approving and change requesting TiCS reviews', async () => {
+    const spyDismiss = jest.spyOn(octokit.rest.pulls, 'dismissReview');
+    const spyMinimize = jest.spyOn(octokit, 'graphql');
+
+    await dismissPreviousReviews([
+      { id: 1, body: '## TiCS Quality Gate', state: 'APPROVED' },
+      { id: 2, body: '## TiCS Analysis', state: 'CHANGES_REQUESTED' }
+    ]);
+
+    expect(spyDismiss).toBeCalledTimes(2);
+    expect(spyDismiss).toBeCalledWith(expect.objectContaining({ review_id: 1 }));
+    expect(spyMinimize).toBeCalledTimes(0);
+  });
+
+  test('Should minimize commenting TiCS reviews', async () => {
+    const spyDismiss = jest.spyOn(octokit.rest.pulls, 'dismissReview');
+    const spyMinimize = jest.spyOn(octokit, 'graphql');
+
+    await dismissPreviousReviews([{ id: 1, node_id: 'node', body: '## TiCS Quality Gate', state: 'COMMENTED' }]);
+
+    expect(spyDismiss).toBeCalledTimes(0);
+    expect(spyMinimize).toBeCalledWith(expect.stringContaining('minimizeComment'), { id: 'node' });
+  });
+
+  test('Should not touch other or already dismissed reviews', async () => {
+    const spyDismiss = jest.spyOn(octokit.rest.pulls, 'dismissReview');
+    const spyMinimize = jest.spyOn(octokit, 'graphql');
+
+    await dismissPreviousReviews([
+      { id: 1, body: 'Looks good to me', state: 'APPROVED' },
+      { id: 2, body: '## TiCS Quality Gate', state: 'DISMISSED' },
+      { id: 3, body: '', state: 'COMMENTED' }
+    ]);
+
+    expect(spyDismiss).toBeCalledTimes(0);
+    expect(spyMinimize).toBeCalledTimes(0);
+  });
+
+  test('Should throw an error on dismissPreviousReviews', async () => {
+    jest.spyOn(octokit.rest.pulls, 'dismissReview').mockImplementationOnce(() => {
+      throw new Error();
+    });
+    const spy = jest.spyOn(Logger.Instance, 'error');
+
+    await dismissPreviousReviews([{ id: 1, body: '## TiCS Quality Gate', state: 'APPROVED' }]);
+
+    expect(spy).toBeCalledTimes(1);
+  });
+});
@@ -0,0 +1,17 @@
+import { getAnnotationPath, getAnnotationSeverity } from '../../src/helper/annotation';
+
+describe('getAnnotationPath', () => {
+  test('Should strip the project and branch from the TiCS path', () => {
+    expect(getAnnotationPath('HIE://project/main/src/test.js', '')).toEqual('src/test.js');
+  });
+
+  test('Should prefix the path with the branch directory', () => {
+    expect(getAnnotationPath('HIE://project/main/src/test.js', 'backend')).toEqual('backend/src/test.js');
+  });
+});
+
+describe('getAnnotationSeverity', () => {
+  test('Should map the TiCS levels to a severity', () => {
+    expect([1, 2, 4, 5, 10].map(level => getAnnotationSeverity(level))).toEqual(['error', 'warning', 'warning', 'note', 'note']);
+  });
+});
@@ -0,0 +1,45 @@
+import { splitArguments } from '../../src/helper/arguments';
+
+describe('splitArguments', () => {
+  test('Should split arguments on whitespace', () => {
+    expect(splitArguments('-log 9   -tmpdir\t/tmp\n-x')).toEqual(['-log', '9', '-tmpdir', '/tmp', '-x']);
+  });
+
+  test('Should return no arguments for an empty string', () => {
+    expect(splitArguments('')).toEqual([]);
+    expect(splitArguments('   ')).toEqual([]);
+  });
+
+  test('Should keep everything between single quotes literally', () => {
+    expect(splitArguments(`-name 'a "b" \\c $d'`)).toEqual(['-name', 'a "b" \\c $d']);
+  });
+
+  test('Should unescape quotes and backslashes between double quotes', () => {
+    expect(splitArguments(`-name "a \\"b\\" \\\\ c's"`)).toEqual(['-name', `a "b" \\ c's`]);
+  });
+
+  test('Should join quoted and unquoted parts of one argument', () => {
+    expect(splitArguments(`-name=a' b'"c d"`)).toEqual(['-name=a bc d']);
+  });
+
+  test('Should keep empty quoted arguments', () => {
+    expect(splitArguments(`-name '' ""`)).toEqual(['-name', '', '']);
+  });
+
+  test('Should escape whitespace and quotes with a backslash outside of quotes', () => {
+    expect(splitArguments(`a\\ b \\'c\\" \\\\`)).toEqual(['a b', `'c"`, '\\']);
+  });
+
+  test('Should keep other backslashes for Windows paths', () => {
+    expect(splitArguments('-tmpdir C:\\temp\\tics')).toEqual(['-tmpdir', 'C:\\temp\\tics']);
+  });
+
+  test('Should not expand shell syntax', () => {
+    expect(splitArguments('$(whoami) `id` ; && | > *')).toEqual(['$(whoami)', '`id`', ';', '&&', '|', '>', '*']);
+  });
+
+  test('Should throw an error on an unterminated quote', () => {
+    expect(() => splitArguments(`-name 'a b`)).toThrow(`Unterminated ' in arguments: -name 'a b`);
+    expect(() => splitArguments('-name "a b')).toThrow('Unterminated " in arguments: -name "a b');
+  });
+});
@@ -0,0 +1,90 @@
+import { clipToHunk, parsePatch } from '../../src/helper/diff';
+import { DiffHunk } from '../../src/helper/interfaces';
+
+/**
+ * Gets the line numbers in the new version of the file of all hunks.
+ */
+function getNewLines(hunks: DiffHunk[]) {
+  return hunks.flatMap(hunk => hunk.lines.filter(line => line.newLine !== undefined).map(line => line.newLine));
+}
+
+describe('parsePatch', () => {
+  test('Should return no hunks without patch', () => {
+    expect(parsePatch(undefined)).toEqual([]);
+    expect(parsePatch('')).toEqual([]);
+  });
+
+  test('Should number added, deleted and context lines', () => {
+    const patch = '@@ -10,4 +10,4 @@ function test() {\n const a = 1;\n-const b = 2;\n+const b = 3;\n+const c = 4;\n const d = 5;\n-const e = 6;';
+
+    expect(parsePatch(patch)).toEqual([
+      {
+        oldStart: 10,
+        oldLines: 4,
+        newStart: 10,
+        newLines: 4,
+        lines: [
+          { type: 'context', oldLine: 10, newLine: 10 },
+          { type: 'deleted', oldLine: 11 },
+          { type: 'added', newLine: 11 },
+          { type: 'added', newLine: 12 },
+          { type: 'context', oldLine: 12, newLine: 13 },
+          { type: 'deleted', oldLine: 13 }
+        ]
+      }
+    ]);
+  });
+
+  test('Should default the line counts to 1 if they are left out', () => {
+    const hunks = parsePatch('@@ -1 +1 @@\n-old\n+new');
+
+    expect(hunks).toEqual([{ oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: expect.any(Array) }]);
+    expect(getNewLines(hunks)).toEqual([1]);
+  });
+
+  test('Should parse multiple hunks and ignore no newline markers', () => {
+    const patch = '@@ -1,2 +1,2 @@\n-a\n+b\n c\n@@ -20,0 +21,2 @@\n+d\n+e\n\\ No newline at end of file';
+
+    const hunks = parsePatch(patch);
+
+    expect(hunks.length).toEqual(2);
+    expect(getNewLines(hunks)).toEqual([1, 2, 21, 22]);
+  });
+
+  test('Should not mistake changed code for a hunk header', () => {
+    const patch = '@@ -1,2 +1,3 @@\n const a = 1;\n+@@ -5,3 +5,100 @@\n+const b = "+7,3";\n-const c = 3;';
+
+    expect(getNewLines(parsePatch(patch))).toEqual([1, 2, 3]);
+  });
+
+  test('Should treat an empty line in a hunk as context line', () => {
+    const patch = '@@ -1,3 +1,3 @@\n a\n\n-b\n+c';
+
+    expect(parsePatch(patch)[0].lines[1]).toEqual({ type: 'context', oldLine: 2, newLine: 2 });
+  });
+
+  test('Should skip file headers of a full diff', () => {
+    const patch = 'diff --git a/test.js b/test.js\n--- a/test.js\n+++ b/test.js\n@@ -0,0 +1 @@\n+new';
+
+    expect(getNewLines(parsePatch(patch))).toEqual([1]);
+  });
+});
+
+describe('clipToHunk', () => {
+  const hunks = parsePatch('@@ -3,3 +3,1 @@\n-a\n-b\n-c\n+d\n@@ -10,2 +8,4 @@\n e\n+f\n+g\n h');
+
+  test('Should not clip a range within a hunk', () => {
+    expect(clipToHunk(hunks, 9, 10)).toEqual([9, 10]);
+    expect(clipToHunk(hunks, 3, 3)).toEqual([3, 3]);
+  });
+
+  test('Should clip a range to the first hunk it overlaps', () => {
+    expect(clipToHunk(hunks, 1, 20)).toEqual([3, 3]);
+    expect(clipToHunk(hunks, 6, 9)).toEqual([8, 9]);
+  });
+
+  test('Should return undefined for a range outside of the hunks', () => {
+    expect(clipToHunk(hunks, 4, 7)).toBeUndefined();
+    expect(clipToHunk(parsePatch('@@ -1,2 +0,0 @@\n-a\n-b'), 1, 2)).toBeUndefined();
+  });
+});
@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs';
+import { githubConfig } from '../../src/configuration';
+import { createFingerprintMarker, createFingerprints, getFingerprint } from '../../src/helper/fingerprint';
+
+describe('createFingerprints', () => {
+  const annotation = {
+    fullPath: 'HIE://project/main/test.js',
+    path: 'test.js',
+    line: 2,
+    level: 1,
+    type: 'CS',
+    rule: 'RULE_1',
+    msg: 'message',
+    count: 1
+  };
+
+  beforeAll(() => {
+    githubConfig.branchdir = '/repo';
+  });
+
+  test('Should keep the fingerprint if lines are added above the annotation', () => {
+    (readFileSync as any).mockReturnValueOnce('a\nconst b = 2;\nc').mockReturnValueOnce('a\nnew\n  const   b = 2;\nc');
+
+    const [before] = createFingerprints([annotation]);
+    const [after] = createFingerprints([{ ...annotation, line: 3 }]);
+
+    expect(before).toMatch(/^[0-9a-f]{16}$/);
+    expect(after).toEqual(before);
+  });
+
+  test('Should change the fingerprint if the rule, message or source line changes', () => {
+    (readFileSync as any).mockReturnValue('a\nconst b = 2;\nconst c = 3;');
+
+    const fingerprints = createFingerprints([
+      annotation,
+      { ...annotation, rule: 'RULE_2' },
+      { ...annotation, msg: 'other' },
+      { ...annotation, line: 3 }
+    ]);
+
+    expect(new Set(fingerprints).size).toEqual(4);
+    (readFileSync as any).mockReset();
+  });
+
+  test('Should number annotations with the same fingerprint', () => {
+    (readFileSync as any).mockReturnValueOnce('}\n}\n}');
+
+    const fingerprints = createFingerprints([{ ...annotation, line: 1 }, annotation]);
+
+    expect(fingerprints[0]).not.toEqual(fingerprints[1]);
+    expect(readFileSync).toHaveBeenCalledTimes(1);
+  });
+
+  test('Should fall back to the line number if the source cannot be read', () => {
+    (readFileSync as any).mockImplementation(() => {
+      throw Error('ENOENT');
+    });
+
+    const [first] = createFingerprints([annotation]);
+    const [moved] = createFingerprints([{ ...annotation, line: 3 }]);
+
+    expect(first).not.toEqual(moved);
+    (readFileSync as any).mockReset();
+  });
+});
+
+describe('getFingerprint', () => {
+  test('Should get the fingerprint from the marker in a review comment', () => {
+    expect(getFingerprint(`:warning: **TiCS: violation**\r\n${createFingerprintMarker('0123456789abcdef')}`)).toEqual('0123456789abcdef');
+  });
+
+  test('Should return undefined for review comments without marker', () => {
+    expect(getFingerprint(':warning: **TiCS: violation**\r\n')).toBeUndefined();
+  });
+});
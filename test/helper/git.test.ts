@@ -0,0 +1,154 @@
+import * as exec from '@actions/exec';
+import { existsSync } from 'fs';
+import { githubConfig } from '../../src/configuration';
+import { findGitRoot, getBranchPrefix, getChangedFilesFromGit, parseGitDiff } from '../../src/helper/git';
+
+const diff = [
+  'diff --git a/src/changed.js b/src/changed.js',
+  'index 1234567..89abcde 100644',
+  '--- a/src/changed.js',
+  '+++ b/src/changed.js',
+  '@@ -1,3 +1,3 @@',
+  ' const a = 1;',
+  '-const b = 2;',
+  '+const b = 3;',
+  ' const c = 4;',
+  'diff --git a/src/new file.js b/src/new file.js',
+  'new file mode 100644',
+  'index 0000000..89abcde',
+  '--- /dev/null',
+  '+++ b/src/new file.js\t',
+  '@@ -0,0 +1,2 @@',
+  '+const a = 1;',
+  '+const b = 2;',
+  'diff --git a/src/old.js b/src/moved.js',
+  'similarity index 100%',
+  'rename from src/old.js',
+  'rename to src/moved.js',
+  'diff --git a/image.png b/image.png',
+  'index 1234567..89abcde 100644',
+  'Binary files a/image.png and b/image.png differ',
+  ''
+].join('\n');
+const nameStatus = ['M', 'src/changed.js', 'A', 'src/new file.js', 'R100', 'src/old.js', 'src/moved.js', 'M', 'image.png', ''].join('\0');
+
+describe('parseGitDiff', () => {
+  test('Should return no changed files on empty diff', () => {
+    expect(parseGitDiff('', '')).toEqual([]);
+  });
+
+  test('Should return changed files with patches and counts', () => {
+    const response = parseGitDiff(nameStatus, diff);
+
+    expect(response.length).toEqual(4);
+    expect(response[0]).toEqual(
+      expect.objectContaining({
+        filename: 'src/changed.js',
+        status: 'modified',
+        additions: 1,
+        deletions: 1,
+        changes: 2,
+        patch: '@@ -1,3 +1,3 @@\n const a = 1;\n-const b = 2;\n+const b = 3;\n const c = 4;'
+      })
+    );
+    expect(response[1]).toEqual(
+      expect.objectContaining({
+        filename: 'src/new file.js',
+        status: 'added',
+        additions: 2,
+        deletions: 0,
+        patch: '@@ -0,0 +1,2 @@\n+const a = 1;\n+const b = 2;'
+      })
+    );
+  });
+
+  test('Should return renamed file with previous filename and no patch', () => {
+    const response = parseGitDiff(nameStatus, diff);
+
+    expect(response[2]).toEqual(
+      expect.objectContaining({ filename: 'src/moved.js', previous_filename: 'src/old.js', status: 'renamed', changes: 0, patch: undefined })
+    );
+  });
+
+  test('Should return binary file without patch', () => {
+    const response = parseGitDiff(nameStatus, diff);
+
+    expect(response[3]).toEqual(expect.objectContaining({ filename: 'image.png', status: 'modified', changes: 0, patch: undefined }));
+  });
+});
+
+describe('getChangedFilesFromGit', () => {
+  test('Should diff the merge base against HEAD', async () => {
+    const spy = jest.spyOn(exec, 'getExecOutput');
+    (exec.getExecOutput as any)
+      .mockResolvedValueOnce({ stdout: 'mergebase\n' })
+      .mockResolvedValueOnce({ stdout: nameStatus })
+      .mockResolvedValueOnce({ stdout: diff });
+
+    const response = await getChangedFilesFromGit();
+
+    expect(response.length).toEqual(4);
+    expect(spy).toHaveBeenCalledWith('git', ['merge-base', 'base', 'HEAD'], expect.any(Object));
+    expect(spy).toHaveBeenCalledWith('git', expect.arrayContaining(['diff', 'mergebase', 'HEAD']), expect.any(Object));
+  });
+
+  test('Should throw an error if the merge base cannot be found', async () => {
+    (exec.getExecOutput as any).mockRejectedValueOnce(new Error('exit code 128'));
+
+    await expect(getChangedFilesFromGit()).rejects.toThrow('Could not determine the merge base with base');
+  });
+});
+
+describe('findGitRoot', () => {
+  afterAll(() => {
+    githubConfig.branchdir = '';
+  });
+
+  test('Should return the branch directory if it contains the checkout', () => {
+    (existsSync as any).mockImplementation((path: string) => path === '/repo/.git');
+
+    githubConfig.branchdir = '/repo';
+
+    expect(findGitRoot()).toEqual('/repo');
+  });
+
+  test('Should return the parent containing the checkout if the branch directory is a subdirectory', () => {
+    (existsSync as any).mockImplementation((path: string) => path === '/repo/.git');
+
+    githubConfig.branchdir = '/repo/sub/dir';
+
+    expect(findGitRoot()).toEqual('/repo');
+  });
+
+  test('Should return undefined if there is no checkout', () => {
+    (existsSync as any).mockImplementation(() => false);
+
+    githubConfig.branchdir = '/repo/sub';
+
+    expect(findGitRoot()).toEqual(undefined);
+    (existsSync as any).mockReset();
+  });
+});
+
+describe('getBranchPrefix', () => {
+  afterAll(() => {
+    githubConfig.branchdir = '';
+    (existsSync as any).mockReset();
+  });
+
+  test('Should return the branch directory relative to the root of the checkout', () => {
+    (existsSync as any).mockImplementation((path: string) => path === '/repo/.git');
+
+    githubConfig.branchdir = '/repo/sub/dir';
+
+    expect(getBranchPrefix()).toEqual('sub/dir');
+  });
+
+  test('Should return an empty prefix if the branch directory is the root of the checkout', () => {
+    (existsSync as any).mockImplementation((path: string) => path === '/repo/.git');
+
+    githubConfig.branchdir = '/repo';
+
+    expect(getBranchPrefix()).toEqual('');
+  });
+});
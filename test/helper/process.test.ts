@@ -0,0 +1,84 @@
+import { getProcessOutput, ProcessTimeoutError, runProcess } from '../../src/helper/process';
+
+const node = process.execPath;
+
+/**
+ * Checks if a process is still running, a process that exited but is not reaped yet (a zombie) is not.
+ * @param pid Id of the process.
+ * @returns true if the process is running.
+ */
+function isRunning(pid: number) {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  const fs: any = jest.requireActual('fs');
+  return !fs.existsSync(`/proc/${pid}/stat`) || fs.readFileSync(`/proc/${pid}/stat`, 'utf8').split(' ')[2] !== 'Z';
+}
+
+describe('runProcess', () => {
+  test('Should return the exit code of the program', async () => {
+    expect(await runProcess(node, ['-e', 'process.exit(3)'])).toEqual(3);
+  });
+
+  test('Should pass the output of the program to the listeners', async () => {
+    let stdout = '';
+    let stderr = '';
+
+    await runProcess(node, ['-e', 'console.log("out"); console.error("err")'], {
+      listeners: { stdout: data => (stdout += data.toString()), stderr: data => (stderr += data.toString()) }
+    });
+
+    expect(stdout).toEqual('out\n');
+    expect(stderr).toEqual('err\n');
+  });
+
+  test('Should reject if the program cannot be started', async () => {
+    await expect(runProcess('/non/existing/program', [])).rejects.toThrow('ENOENT');
+  });
+
+  test('Should terminate the program and the processes it started on timeout', async () => {
+    // the child prints the pid of a grandchild that keeps running
+    const script = `const child = require('child_process').spawn(process.execPath, ['-e', 'setTimeout(() => {}, 60000)']); console.log(child.pid); setTimeout(() => {}, 60000);`;
+    let output = '';
+
+    await expect(runProcess(node, ['-e', script], { timeout: 500, listeners: { stdout: data => (output += data.toString()) } })).rejects.toThrow(
+      ProcessTimeoutError
+    );
+
+    const grandchild = Number(output.trim());
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(isRunning(grandchild)).toBeFalsy();
+  });
+
+  test('Should terminate the program and raise the signal again when the action is cancelled', async () => {
+    const kill = process.kill;
+    // the signal is not raised for real, as that would end the test run
+    const spyKill = jest.spyOn(process, 'kill').mockImplementation((pid, signal) => (pid === process.pid ? true : kill(pid, signal)));
+    let output = '';
+
+    const promise = runProcess(node, ['-e', 'console.log("started"); setTimeout(() => {}, 60000)'], {
+      listeners: { stdout: data => (output += data.toString()) }
+    });
+    while (!output) await new Promise(resolve => setTimeout(resolve, 10));
+    process.emit('SIGTERM', 'SIGTERM');
+
+    await expect(promise).rejects.toThrow('terminated by signal SIGTERM');
+    expect(spyKill).toHaveBeenCalledWith(process.pid, 'SIGTERM');
+    expect(process.listenerCount('SIGTERM')).toEqual(0);
+    spyKill.mockRestore();
+  });
+});
+
+describe('getProcessOutput', () => {
+  test('Should return the output of the program', async () => {
+    const output = await getProcessOutput(node, ['-e', 'process.stdout.write("out"); process.stderr.write("err")']);
+
+    expect(output).toEqual({ exitCode: 0, stdout: 'out', stderr: 'err' });
+  });
+
+  test('Should throw an error if the program fails', async () => {
+    await expect(getProcessOutput(node, ['-e', 'process.exit(1)'])).rejects.toThrow(`${node} failed with exit code 1.`);
+  });
+});
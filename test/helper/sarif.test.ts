@@ -0,0 +1,145 @@
+import { setOutput } from '@actions/core';
+import { writeFileSync } from 'fs';
+import { createSarifLog, exportSarif } from '../../src/helper/sarif';
+import Logger from '../../src/helper/logger';
+
+const qualityGate = {
+  passed: false,
+  message: 'message',
+  url: 'url',
+  gates: [
+    { name: 'Security', passed: true, conditions: [{ passed: true, message: 'No security violations' }] },
+    {
+      name: 'Coding Standards',
+      passed: false,
+      conditions: [
+        { passed: false, message: 'Level 1', annotationsApiV1Links: [{ url: 'level1' }] },
+        { passed: true, message: 'Level 3', annotationsApiV1Links: [{ url: 'level3' }] }
+      ]
+    }
+  ],
+  annotationsApiV1Links: [{ url: 'level1' }, { url: 'level3' }]
+};
+
+const annotations = [
+  {
+    fullPath: 'HIE://project/main/src/test.js',
+    line: 10,
+    level: 1,
+    category: 'Naming',
+    type: 'CS',
+    rule: 'RULE_1',
+    msg: 'message 1',
+    count: 2,
+    gateId: 0
+  },
+  {
+    fullPath: 'HIE://project/main/src/other.js',
+    line: 0,
+    level: 6,
+    category: 'Naming',
+    type: 'CS',
+    rule: 'RULE_1',
+    msg: 'message 2',
+    count: 1,
+    gateId: 0
+  },
+  {
+    fullPath: 'HIE://project/main/src/other.js',
+    line: 3,
+    level: 3,
+    category: 'Basic',
+    type: 'CS',
+    rule: 'RULE_2',
+    msg: 'message 3',
+    count: 1,
+    gateId: 2
+  }
+];
+
+describe('createSarifLog', () => {
+  test('Should return an empty run if there are no annotations', () => {
+    const response = createSarifLog([], qualityGate);
+
+    expect(response.version).toEqual('2.1.0');
+    expect(response.runs[0].tool.driver.name).toEqual('TICS');
+    expect(response.runs[0].tool.driver.rules).toEqual([]);
+    expect(response.runs[0].results).toEqual([]);
+    expect(response.runs[0].properties).toEqual({ qualityGate: { passed: false, message: 'message', url: 'url' } });
+  });
+
+  test('Should add each rule only once', () => {
+    const response = createSarifLog(annotations, qualityGate);
+
+    expect(response.runs[0].tool.driver.rules).toEqual([
+      {
+        id: 'RULE_1',
+        name: 'RULE_1',
+        shortDescription: { text: 'CS violation: RULE_1' },
+        defaultConfiguration: { level: 'error' },
+        properties: { category: 'Naming', tags: ['CS', 'Naming'] }
+      },
+      {
+        id: 'RULE_2',
+        name: 'RULE_2',
+        shortDescription: { text: 'CS violation: RULE_2' },
+        defaultConfiguration: { level: 'warning' },
+        properties: { category: 'Basic', tags: ['CS', 'Basic'] }
+      }
+    ]);
+  });
+
+  test('Should map annotations to results', () => {
+    const response = createSarifLog(annotations, qualityGate);
+
+    expect(response.runs[0].results[0]).toEqual({
+      ruleId: 'RULE_1',
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: 'message 1' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/test.js' }, region: { startLine: 10 } } }],
+      occurrenceCount: 2,
+      properties: { category: 'Naming', level: 1, qualityGate: 'Coding Standards' }
+    });
+    expect(response.runs[0].results[1].level).toEqual('note');
+    expect(response.runs[0].results[1].locations[0].physicalLocation.region.startLine).toEqual(1);
+    expect(response.runs[0].results[2].ruleIndex).toEqual(1);
+    expect(response.runs[0].results[2].level).toEqual('warning');
+    expect(response.runs[0].results[2].properties.qualityGate).toEqual(undefined);
+  });
+
+  test('Should find the gate of an annotation by the annotations link of its condition', () => {
+    const response = createSarifLog([{ ...annotations[0], gateId: 1 }], qualityGate);
+
+    expect(response.runs[0].results[0].properties.qualityGate).toEqual('Coding Standards');
+  });
+
+  test('Should add the end line of an annotation spanning multiple lines', () => {
+    const response = createSarifLog([{ ...annotations[0], endLine: 12 }], qualityGate);
+
+    expect(response.runs[0].results[0].locations[0].physicalLocation.region).toEqual({ startLine: 10, endLine: 12 });
+  });
+});
+
+describe('exportSarif', () => {
+  test('Should write the SARIF file and set the output', () => {
+    const response = exportSarif(annotations, qualityGate);
+
+    expect(response).toEqual('tics-results.sarif');
+    expect(writeFileSync).toBeCalledWith('tics-results.sarif', JSON.stringify(createSarifLog(annotations, qualityGate), null, 2));
+    expect(setOutput).toBeCalledWith('sarifFile', 'tics-results.sarif');
+  });
+
+  test('Should throw an error on writing the SARIF file', () => {
+    (writeFileSync as any).mockImplementationOnce(() => {
+      throw new Error();
+    });
+    const spy = jest.spyOn(Logger.Instance, 'error');
+
+    const response = exportSarif(annotations, qualityGate);
+
+    expect(response).toEqual(undefined);
+    expect(spy).toBeCalledTimes(1);
+    expect(setOutput).toBeCalledTimes(0);
+  });
+});
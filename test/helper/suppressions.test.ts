@@ -0,0 +1,155 @@
+import { existsSync, readFileSync } from 'fs';
+import { ticsConfig } from '../../src/configuration';
+import Logger from '../../src/helper/logger';
+import { Annotation } from '../../src/helper/interfaces';
+import { applySuppressions, formatSuppression, loadSuppressions } from '../../src/helper/suppressions';
+
+/**
+ * Creates an annotation with the fields that suppressions match on.
+ */
+function createAnnotation(path: string, rule: string, msg: string, count: number = 1): Annotation {
+  return { fullPath: `HIE://project/branch/${path}`, path: path, line: 1, rule: rule, msg: msg, count: count } as Annotation;
+}
+
+/**
+ * Loads a suppressions file with the given content.
+ */
+function loadSuppressionsFile(content: string) {
+  (existsSync as any).mockReturnValueOnce(true);
+  (readFileSync as any).mockReturnValueOnce(content);
+  ticsConfig.suppressionsFile = '.tics-suppressions.yml';
+
+  loadSuppressions();
+}
+
+describe('loadSuppressions', () => {
+  afterEach(() => {
+    ticsConfig.suppressionsFile = '';
+    loadSuppressions();
+  });
+
+  test('Should not suppress anything without suppressionsFile', () => {
+    loadSuppressions();
+
+    expect(existsSync).toHaveBeenCalledTimes(0);
+    expect(applySuppressions([createAnnotation('src/test.ts', 'rule', 'message')]).suppressed).toEqual([]);
+  });
+
+  test('Should ignore a suppressionsFile that does not exist', () => {
+    (existsSync as any).mockReturnValueOnce(false);
+    const spyWarning = jest.spyOn(Logger.Instance, 'warning');
+    ticsConfig.suppressionsFile = '.tics-suppressions.yml';
+
+    loadSuppressions();
+
+    expect(readFileSync).toHaveBeenCalledTimes(0);
+    expect(spyWarning).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should parse the suppressions with comments and quoted values', () => {
+    loadSuppressionsFile(
+      [
+        '# known false positives',
+        '- rule: CS-1 # magic numbers',
+        '  path: "src/generated/**"',
+        '',
+        '-',
+        "  message: '^It''s unused: .*'",
+        '  expires: 2999-12-31',
+        '  reason: Checked by hand'
+      ].join('\r\n')
+    );
+
+    const annotations = [createAnnotation('src/generated/a.ts', 'CS-1', 'message'), createAnnotation('src/b.ts', 'CS-2', "It's unused: a")];
+
+    expect(applySuppressions(annotations).suppressed).toEqual([
+      { suppression: { rule: 'CS-1', path: 'src/generated/**' }, count: 1 },
+      { suppression: { message: "^It's unused: .*", expires: '2999-12-31', reason: 'Checked by hand' }, count: 1 }
+    ]);
+  });
+
+  test('Should warn and not apply expired suppressions', () => {
+    const spyWarning = jest.spyOn(Logger.Instance, 'warning');
+
+    loadSuppressionsFile('- rule: CS-1\n  path: src/**\n  expires: 2000-01-01\n- rule: CS-2');
+
+    expect(spyWarning).toHaveBeenCalledWith(
+      'Suppression (rule: CS-1, path: src/**) of .tics-suppressions.yml expired on 2000-01-01 and is no longer applied.'
+    );
+    expect(applySuppressions([createAnnotation('src/a.ts', 'CS-1', 'message')]).suppressed).toEqual([]);
+    expect(applySuppressions([createAnnotation('src/a.ts', 'CS-2', 'message')]).suppressed.length).toEqual(1);
+  });
+
+  test.each([
+    ['rule: CS-1', 'line 1 should be a list item or a "key: value" of a list item.'],
+    ['  rule: CS-1', 'line 1 should be a list item or a "key: value" of a list item.'],
+    ['- rule: "CS-1', 'the string on line 1 is not closed.'],
+    ['- rule: CS-1\n  level: 1', 'suppression 0 has an unknown key level.'],
+    ['- reason: Everything', 'suppression 0 should have a rule, path or message.'],
+    ['- message: (unclosed', 'the message of suppression 0 should be a regular expression.'],
+    ['- rule: CS-1\n  expires: 31-12-2999', 'the expiry date of suppression 0 should be formatted as YYYY-MM-DD.']
+  ])('Should warn and not suppress anything if the suppressionsFile is invalid (%s)', (content, message) => {
+    const spyWarning = jest.spyOn(Logger.Instance, 'warning');
+
+    loadSuppressionsFile(content);
+
+    expect(spyWarning).toHaveBeenCalledWith(`Could not load the suppressions of .tics-suppressions.yml: ${message}`);
+    expect(applySuppressions([createAnnotation('src/a.ts', 'CS-1', '(unclosed')]).suppressed).toEqual([]);
+  });
+});
+
+describe('applySuppressions', () => {
+  beforeAll(() => {
+    loadSuppressionsFile(
+      ['- rule: CS-1', '  path: src/**/*.test.ts', '- path: "**/generated/*"', '- message: magic number \\d+', '  path: lib/?.ts'].join('\n')
+    );
+  });
+
+  afterAll(() => {
+    ticsConfig.suppressionsFile = '';
+    loadSuppressions();
+  });
+
+  test('Should only suppress annotations that match all conditions of a suppression', () => {
+    const annotations = [
+      createAnnotation('src/a.test.ts', 'CS-1', 'message', 2),
+      createAnnotation('src/deep/b.test.ts', 'CS-1', 'message'),
+      createAnnotation('src/a.test.ts', 'CS-2', 'message'),
+      createAnnotation('src/a.ts', 'CS-1', 'message'),
+      createAnnotation('test/a.test.ts', 'CS-1', 'message')
+    ];
+
+    const response = applySuppressions(annotations);
+
+    expect(response.annotations).toEqual(annotations.slice(2));
+    expect(response.suppressed).toEqual([{ suppression: { rule: 'CS-1', path: 'src/**/*.test.ts' }, count: 3 }]);
+  });
+
+  test('Should match "**/" with any or no directories and "*" and "?" within a directory', () => {
+    const response = applySuppressions([
+      createAnnotation('generated/a.ts', 'CS-3', 'message'),
+      createAnnotation('src/generated/a.ts', 'CS-3', 'message'),
+      createAnnotation('src/generated/deep/a.ts', 'CS-3', 'message'),
+      createAnnotation('lib/a.ts', 'CS-3', 'Avoid magic number 42'),
+      createAnnotation('lib/ab.ts', 'CS-3', 'Avoid magic number 42')
+    ]);
+
+    expect(response.annotations.map(annotation => annotation.path)).toEqual(['src/generated/deep/a.ts', 'lib/ab.ts']);
+    expect(response.suppressed.map(entry => entry.count)).toEqual([2, 1]);
+  });
+
+  test('Should search the message for the regular expression', () => {
+    const response = applySuppressions([
+      createAnnotation('lib/a.ts', 'CS-3', 'Avoid magic number 42'),
+      createAnnotation('lib/b.ts', 'CS-3', 'Avoid magic number x')
+    ]);
+
+    expect(response.annotations.map(annotation => annotation.path)).toEqual(['lib/b.ts']);
+  });
+});
+
+describe('formatSuppression', () => {
+  test('Should list the conditions of the suppression', () => {
+    expect(formatSuppression({ rule: 'CS-1', message: '^Magic', reason: 'False positive' })).toEqual('rule: CS-1, message: ^Magic');
+  });
+});
@@ -0,0 +1,99 @@
+import { readFileSync, writeFileSync } from 'fs';
+import ProxyAgent from 'proxy-agent';
+import { rootCertificates } from 'tls';
+import { createViewerAgent, getCaBundlePath, getTlsOptions, readCaBundle, skipsCertificateVerification } from '../../src/helper/tls';
+
+const pem = '-----BEGIN CERTIFICATE-----\nMIIB\n-----END CERTIFICATE-----\n';
+
+describe('readCaBundle', () => {
+  test('Should return undefined if no caBundle is given', () => {
+    expect(readCaBundle('')).toBeUndefined();
+  });
+
+  test('Should return an inline bundle as is', () => {
+    expect(readCaBundle(pem)).toEqual(pem);
+    expect(readFileSync).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should read the bundle from a path', () => {
+    (readFileSync as any).mockReturnValueOnce(pem);
+
+    expect(readCaBundle('/path/to/ca.pem')).toEqual(pem);
+    expect(readFileSync).toHaveBeenCalledWith('/path/to/ca.pem', 'utf8');
+  });
+
+  test('Should throw an error if the bundle cannot be read', () => {
+    (readFileSync as any).mockImplementationOnce(() => {
+      throw Error('ENOENT: no such file or directory');
+    });
+
+    expect(() => readCaBundle('/path/to/ca.pem')).toThrow('Could not read the caBundle: ENOENT: no such file or directory');
+  });
+});
+
+describe('getCaBundlePath', () => {
+  test('Should return the path of a bundle given by path', () => {
+    expect(getCaBundlePath('/path/to/ca.pem')).toEqual('/path/to/ca.pem');
+    expect(writeFileSync).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should write an inline bundle to the temp directory of the runner', () => {
+    process.env.RUNNER_TEMP = '/runner/temp';
+
+    expect(getCaBundlePath(pem)).toEqual('/runner/temp/tics-ca-bundle.pem');
+    expect(writeFileSync).toHaveBeenCalledWith('/runner/temp/tics-ca-bundle.pem', pem);
+    delete process.env.RUNNER_TEMP;
+  });
+});
+
+describe('skipsCertificateVerification', () => {
+  test('Should skip verification for trustStrategy all', () => {
+    expect(skipsCertificateVerification('all', '')).toBeTruthy();
+    expect(skipsCertificateVerification('all', pem)).toBeTruthy();
+  });
+
+  test('Should only skip verification for trustStrategy self-signed without caBundle', () => {
+    expect(skipsCertificateVerification('self-signed', '')).toBeTruthy();
+    expect(skipsCertificateVerification('self-signed', pem)).toBeFalsy();
+  });
+
+  test('Should not skip verification for trustStrategy strict', () => {
+    expect(skipsCertificateVerification('strict', '')).toBeFalsy();
+  });
+});
+
+describe('getTlsOptions', () => {
+  test('Should return no options by default', () => {
+    expect(getTlsOptions('', 'strict', '')).toEqual({});
+  });
+
+  test('Should trust the caBundle next to the certificates of Node', () => {
+    const options = getTlsOptions(pem, 'self-signed', '');
+
+    expect(options.ca).toEqual([...rootCertificates, pem]);
+    expect(options.rejectUnauthorized).toBeUndefined();
+  });
+
+  test('Should not reject unauthorized certificates if verification is skipped', () => {
+    expect(getTlsOptions('', 'all', '')).toEqual({ rejectUnauthorized: false });
+  });
+
+  test('Should not check the hostname if hostnameVerification is disabled', () => {
+    const options = getTlsOptions('', 'strict', 'false');
+
+    expect(options.rejectUnauthorized).toBeUndefined();
+    expect(options.checkServerIdentity!('host', {} as any)).toBeUndefined();
+  });
+});
+
+describe('createViewerAgent', () => {
+  test('Should add the TLS options to each request of the agent', () => {
+    const addRequest = jest.fn();
+    (ProxyAgent as any).mockImplementationOnce(() => ({ addRequest }));
+
+    const agent = createViewerAgent({ rejectUnauthorized: false });
+    agent.addRequest({} as any, { host: 'localhost', secureEndpoint: true } as any);
+
+    expect(addRequest).toHaveBeenCalledWith({}, { host: 'localhost', secureEndpoint: true, rejectUnauthorized: false });
+  });
+});
@@ -1,6 +1,6 @@
-import { existsSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 
-import { githubConfig, ticsConfig } from '../src/configuration';
+import { githubConfig, octokit, ticsConfig } from '../src/configuration';
 import { Events } from '../src/helper/enums';
 import * as main from '../src/main';
 import Logger from '../src/helper/logger';
@@ -11,6 +11,14 @@ import * as fetcher from '../src/tics/fetcher';
 import * as review from '../src/github/posting/review';
 import * as calling_annotations from '../src/github/calling/annotations';
 import * as posting_annotations from '../src/github/posting/annotations';
+import * as job_summary from '../src/github/posting/job_summary';
+import * as sarif from '../src/helper/sarif';
+import { createFingerprintMarker, createFingerprints } from '../src/helper/fingerprint';
+import { createRunStateMarker } from '../src/helper/summary';
+import * as check from '../src/github/posting/check';
+import * as outputs from '../src/github/posting/outputs';
+import * as comment from '../src/github/posting/comment';
+import { TicsAuthError, TicsServerError } from '../src/tics/errors';
 
 import {
   analysisFailedNoUrl,
@@ -53,6 +61,39 @@ describe('pre checks', () => {
     expect(spyExit).toHaveBeenCalledWith(expect.stringContaining('Minimum required TiCS Viewer version is 2022.4. Found version 2022.0.0.'));
   });
 
+  test.each([
+    ['retryCount', 'three', 'Input retryCount should be a whole number of 0 or more.'],
+    ['retryCount', '-1', 'Input retryCount should be a whole number of 0 or more.'],
+    ['retryDelay', '0.5', 'Input retryDelay should be a whole number of seconds of 0 or more.'],
+    ['analysisTimeout', '30m', 'Input analysisTimeout should be a number of minutes of 0 or more.']
+  ])('Should call exit without contacting the viewer if %s is %s', async (input, value, message) => {
+    const spyViewerVersion = jest.spyOn(fetcher, 'getViewerVersion');
+    const spyExit = jest.spyOn(Logger.Instance, 'exit');
+    const original = (ticsConfig as any)[input];
+    (ticsConfig as any)[input] = Number(value);
+
+    await main.run();
+
+    (ticsConfig as any)[input] = original;
+    expect(spyViewerVersion).toHaveBeenCalledTimes(0);
+    expect(spyExit).toHaveBeenCalledWith(message);
+  });
+
+  test('Should call exit without contacting the viewer if the caBundle cannot be read', async () => {
+    (readFileSync as any).mockImplementationOnce(() => {
+      throw Error('ENOENT: no such file or directory');
+    });
+    const spyViewerVersion = jest.spyOn(fetcher, 'getViewerVersion');
+    const spyExit = jest.spyOn(Logger.Instance, 'exit');
+    ticsConfig.caBundle = '/path/to/ca.pem';
+
+    await main.run();
+
+    ticsConfig.caBundle = '';
+    expect(spyViewerVersion).toHaveBeenCalledTimes(0);
+    expect(spyExit).toHaveBeenCalledWith('Could not read the caBundle: ENOENT: no such file or directory');
+  });
+
   test('Should call exit if ".git" does not exist', async () => {
     jest.spyOn(fetcher, 'getViewerVersion').mockResolvedValue({ version: '2022.4.0' });
 
@@ -128,7 +169,7 @@ describe('SetFailed checks', () => {
     jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
     jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce(analysisPassed);
     jest.spyOn(fetcher, 'getAnalyzedFiles').mockResolvedValueOnce([]);
-    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce({});
+    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce({} as any);
     jest.spyOn(review, 'postReview').mockImplementationOnce(() => Promise.resolve());
 
     const spySetFailed = jest.spyOn(Logger.Instance, 'setFailed');
@@ -187,6 +228,23 @@ describe('postNothingAnalyzedReview', () => {
     expect(spyReview).toHaveBeenCalled();
     expect(spyReview).toHaveBeenCalledWith('No changed files applicable for TiCS analysis quality gating.', Events.APPROVE);
   });
+
+  test('Should post an error comment and fail when analysis exited with an error and warning 5057', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce({ ...analysisPassedNoUrlWarning5057, completed: false, statusCode: 1 });
+
+    const spyReview = jest.spyOn(review, 'postNothingAnalyzedReview');
+    const spyComment = jest.spyOn(comment, 'postErrorComment').mockImplementationOnce(() => Promise.resolve());
+    const spySetFailed = jest.spyOn(Logger.Instance, 'setFailed');
+
+    await main.run();
+
+    expect(spyReview).toHaveBeenCalledTimes(0);
+    expect(spyComment).toHaveBeenCalled();
+    expect(spySetFailed).toHaveBeenCalledWith('Failed to run TiCS Github Action.');
+  });
 });
 
 describe('PostReview checks', () => {
@@ -196,7 +254,7 @@ describe('PostReview checks', () => {
     jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
     jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce(analysisPassed);
     jest.spyOn(fetcher, 'getAnalyzedFiles').mockResolvedValueOnce([]);
-    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce({});
+    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce({} as any);
 
     const spyReview = jest.spyOn(review, 'postReview').mockImplementationOnce(() => Promise.resolve());
 
@@ -250,7 +308,38 @@ describe('PostReview checks', () => {
 
     await main.run();
 
-    expect(spyReview).toHaveBeenCalledWith(analysisPassed, doubleAnalyzedFiles, doubleFileQualityGatePassed, undefined);
+    expect(spyReview).toHaveBeenCalledWith(analysisPassed, doubleAnalyzedFiles, doubleFileQualityGatePassed, {
+      postable: [],
+      unpostable: [],
+      fingerprints: []
+    });
+  });
+
+  test('Should report the violations of the previous run as fixed when no annotations are left', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(doubleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce(analysisPassed);
+    jest.spyOn(fetcher, 'getAnalyzedFiles').mockResolvedValueOnce(doubleAnalyzedFiles);
+    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce(doubleFileQualityGatePassed);
+    jest.spyOn(fetcher, 'getAnnotations').mockResolvedValueOnce([]);
+    jest.spyOn(calling_annotations, 'getPostedReviewComments').mockResolvedValueOnce([]);
+    const previousState = { annotations: [{ fingerprint: 'abc', path: 'test.js', line: 1, rule: 'rule' }], conditions: [] };
+    (octokit.paginate as any).mockResolvedValueOnce([{ body: createRunStateMarker(previousState) }]);
+    const spyCreateReview = jest.spyOn(octokit.rest.pulls, 'createReview');
+
+    ticsConfig.postAnnotations = true;
+
+    await main.run();
+
+    expect(spyCreateReview).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.stringContaining(':white_check_mark: 1 violation(s) fixed since the last run')
+      })
+    );
+    expect(spyCreateReview).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.stringContaining('<!-- tics-github-action:state {"annotations":[],') })
+    );
   });
 
   test('Should call postReview when postAnnotations is true with one annotation and no previously posted review comment', async () => {
@@ -288,6 +377,476 @@ describe('DeletePreviousReviewComments check', () => {
 
     await main.run();
 
-    expect(spyDelete).toHaveBeenCalledWith(singlePreviousReviewComments);
+    expect(spyDelete).toHaveBeenCalledWith(singlePreviousReviewComments, [expect.objectContaining({ path: 'test.js' })]);
+  });
+
+  test('Should not post review comments again that were posted by a previous run and still apply', async () => {
+    const [fingerprint] = createFingerprints([{ ...singleAnnotations[0], path: 'test.js' }]);
+    const postedReviewComments = [{ id: 1, line: 1, body: `:warning: **TiCS: test violation: test**\r\n${createFingerprintMarker(fingerprint)}` }];
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(doubleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce(analysisPassed);
+    jest.spyOn(fetcher, 'getAnalyzedFiles').mockResolvedValueOnce(doubleAnalyzedFiles);
+    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce(doubleFileQualityGatePassed);
+    jest.spyOn(fetcher, 'getAnnotations').mockResolvedValueOnce(singleAnnotations);
+    jest.spyOn(calling_annotations, 'getPostedReviewComments').mockImplementationOnce((): any => postedReviewComments);
+
+    ticsConfig.postAnnotations = true;
+    const spyDelete = jest.spyOn(octokit.rest.pulls, 'deleteReviewComment');
+    const spyReview = jest.spyOn(review, 'postReview').mockImplementationOnce(() => Promise.resolve());
+
+    await main.run();
+
+    expect(spyDelete).toHaveBeenCalledTimes(0);
+    expect(spyReview).toHaveBeenCalledWith(analysisPassed, doubleAnalyzedFiles, doubleFileQualityGatePassed, {
+      postable: [],
+      unpostable: [],
+      fingerprints: [expect.objectContaining({ fingerprint: fingerprint })]
+    });
+  });
+});
+
+describe('Outputs', () => {
+  test('Should set the outputs after posting the review', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(doubleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce(analysisPassed);
+    jest.spyOn(fetcher, 'getAnalyzedFiles').mockResolvedValueOnce(doubleAnalyzedFiles);
+    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce(doubleFileQualityGatePassed);
+    jest.spyOn(review, 'postReview').mockImplementationOnce(() => Promise.resolve());
+    const spyOutputs = jest.spyOn(outputs, 'setResultOutputs');
+
+    ticsConfig.postAnnotations = false;
+
+    await main.run();
+
+    expect(spyOutputs).toHaveBeenCalledWith(analysisPassed, doubleAnalyzedFiles, doubleFileQualityGatePassed, undefined, undefined);
+  });
+});
+
+describe('Job summary', () => {
+  test('Should write the results to the job summary', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(doubleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce(analysisPassed);
+    jest.spyOn(fetcher, 'getAnalyzedFiles').mockResolvedValueOnce(doubleAnalyzedFiles);
+    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce(doubleFileQualityGatePassed);
+    jest.spyOn(review, 'postReview').mockImplementationOnce(() => Promise.resolve());
+    const spySummary = jest.spyOn(job_summary, 'postJobSummary').mockImplementationOnce(() => Promise.resolve());
+
+    ticsConfig.postAnnotations = false;
+
+    await main.run();
+
+    expect(spySummary).toHaveBeenCalledWith(analysisPassed, doubleAnalyzedFiles, doubleFileQualityGatePassed, undefined);
+  });
+
+  test('Should write the errors to the job summary if the analysis failed', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce(analysisFailedNoUrl);
+    const spySummary = jest.spyOn(job_summary, 'postErrorJobSummary').mockImplementationOnce(() => Promise.resolve());
+
+    await main.run();
+
+    expect(spySummary).toHaveBeenCalledWith(analysisFailedNoUrl);
+  });
+});
+
+describe('Check run', () => {
+  afterAll(() => {
+    ticsConfig.checkRun = false;
+    ticsConfig.postAnnotations = false;
+  });
+
+  test('Should call postCheckRun instead of postReview with the annotations', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(doubleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce(analysisPassed);
+    jest.spyOn(fetcher, 'getAnalyzedFiles').mockResolvedValueOnce(doubleAnalyzedFiles);
+    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce(doubleFileQualityGatePassed);
+    jest.spyOn(fetcher, 'getAnnotations').mockResolvedValueOnce(singleAnnotations);
+    jest.spyOn(calling_annotations, 'getPostedReviewComments').mockResolvedValueOnce([]);
+    const spyReview = jest.spyOn(review, 'postReview');
+    const spyCheck = jest.spyOn(check, 'postCheckRun').mockImplementationOnce(() => Promise.resolve());
+
+    ticsConfig.checkRun = true;
+    ticsConfig.postAnnotations = true;
+
+    await main.run();
+
+    expect(spyCheck).toHaveBeenCalledWith(analysisPassed, doubleAnalyzedFiles, doubleFileQualityGatePassed, singleAnnotations);
+    expect(spyReview).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should call postNothingAnalyzedCheckRun when analysis passed with warning 5057', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce(analysisPassedNoUrlWarning5057);
+    const spyCheck = jest.spyOn(check, 'postNothingAnalyzedCheckRun').mockImplementationOnce(() => Promise.resolve());
+
+    ticsConfig.checkRun = true;
+
+    await main.run();
+
+    expect(spyCheck).toHaveBeenCalledWith('No changed files applicable for TiCS analysis quality gating.', 'success');
+  });
+
+  test('Should create a failed check run instead of an error comment when analysis failed', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce(analysisFailedNoUrl);
+    const spyCheck = jest.spyOn(check, 'postNothingAnalyzedCheckRun').mockImplementationOnce(() => Promise.resolve());
+    const spyComment = jest.spyOn(comment, 'postErrorComment');
+    const spySetFailed = jest.spyOn(Logger.Instance, 'setFailed');
+
+    ticsConfig.checkRun = true;
+
+    await main.run();
+
+    expect(spyCheck).toHaveBeenCalledWith(expect.stringContaining('### :x: Failed'), 'failure');
+    expect(spyComment).toHaveBeenCalledTimes(0);
+    expect(spySetFailed).toHaveBeenCalledWith('Failed to run TiCS Github Action.');
+  });
+
+  test('Should create a failed check run when the quality gate cannot be retrieved', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce({ ...analysisPassed, diagnostics: [] });
+    jest.spyOn(fetcher, 'getAnalyzedFiles').mockResolvedValueOnce(singleAnalyzedFiles);
+    jest.spyOn(fetcher, 'getQualityGate').mockRejectedValueOnce(new Error('quality gate', { cause: new TicsServerError('server', 503, 'url') }));
+    jest.spyOn(job_summary, 'postErrorJobSummary').mockImplementationOnce(() => Promise.resolve());
+    const spyCheck = jest.spyOn(check, 'postNothingAnalyzedCheckRun').mockImplementationOnce(() => Promise.resolve());
+    const spyComment = jest.spyOn(comment, 'postErrorComment');
+
+    ticsConfig.checkRun = true;
+
+    await main.run();
+
+    expect(spyCheck).toHaveBeenCalledWith(expect.stringContaining('quality gate'), 'failure');
+    expect(spyComment).toHaveBeenCalledTimes(0);
+  });
+});
+
+describe('SARIF export', () => {
+  afterAll(() => {
+    ticsConfig.exportSarif = false;
+  });
+
+  test('Should export the annotations without posting them when only exportSarif is true', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(doubleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce(analysisPassed);
+    jest.spyOn(fetcher, 'getAnalyzedFiles').mockResolvedValueOnce(doubleAnalyzedFiles);
+    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce(doubleFileQualityGatePassed);
+    jest.spyOn(fetcher, 'getAnnotations').mockResolvedValueOnce(singleAnnotations);
+    jest.spyOn(review, 'postReview').mockImplementationOnce(() => Promise.resolve());
+    const spyPosted = jest.spyOn(calling_annotations, 'getPostedReviewComments');
+    const spySarif = jest.spyOn(sarif, 'exportSarif').mockReturnValueOnce('tics-results.sarif');
+
+    ticsConfig.postAnnotations = false;
+    ticsConfig.exportSarif = true;
+
+    await main.run();
+
+    expect(spySarif).toHaveBeenCalledWith(singleAnnotations, doubleFileQualityGatePassed);
+    expect(spyPosted).toHaveBeenCalledTimes(0);
+  });
+});
+
+describe('Viewer errors', () => {
+  test('Should call exit if the viewer version cannot be retrieved', async () => {
+    jest.spyOn(fetcher, 'getViewerVersion').mockRejectedValueOnce(new Error('There was an error retrieving the Viewer version'));
+    const spyExit = jest.spyOn(Logger.Instance, 'exit');
+
+    await main.run();
+
+    expect(spyExit).toHaveBeenCalledWith('There was an error retrieving the Viewer version');
+  });
+
+  test('Should post an error comment and call setFailed if the quality gate cannot be retrieved', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce({ ...analysisPassed, diagnostics: [] });
+    jest.spyOn(fetcher, 'getAnalyzedFiles').mockResolvedValueOnce(singleAnalyzedFiles);
+    jest.spyOn(fetcher, 'getQualityGate').mockRejectedValueOnce(new Error('There was an error retrieving the quality gates'));
+    const spyComment = jest.spyOn(comment, 'postErrorComment').mockImplementationOnce(() => Promise.resolve());
+    const spyReview = jest.spyOn(review, 'postReview');
+    const spySetFailed = jest.spyOn(Logger.Instance, 'setFailed');
+
+    await main.run();
+
+    expect(spyComment).toHaveBeenCalledWith(
+      expect.objectContaining({ diagnostics: [{ severity: 'error', message: 'There was an error retrieving the quality gates' }] })
+    );
+    expect(spyReview).toHaveBeenCalledTimes(0);
+    expect(spySetFailed).toHaveBeenCalledWith('Failed to run TiCS Github Action.');
+  });
+
+  test('Should continue without analyzed files and annotations if the viewer fails to return them', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce(analysisPassed);
+    jest.spyOn(fetcher, 'getAnalyzedFiles').mockRejectedValueOnce(new Error('files', { cause: new TicsServerError('server', 503, 'url') }));
+    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce(singleFileQualityGatePassed);
+    jest.spyOn(fetcher, 'getAnnotations').mockRejectedValueOnce(new Error('annotations', { cause: new TicsServerError('server', 503, 'url') }));
+    const spyPosted = jest.spyOn(calling_annotations, 'getPostedReviewComments');
+    const spyDelete = jest.spyOn(posting_annotations, 'deletePreviousReviewComments');
+    const spyReview = jest.spyOn(review, 'postReview').mockImplementationOnce(() => Promise.resolve());
+    const spyWarning = jest.spyOn(Logger.Instance, 'warning');
+
+    ticsConfig.postAnnotations = true;
+
+    await main.run();
+
+    expect(spyWarning).toHaveBeenCalledWith('files Continuing without the list of analyzed files.');
+    expect(spyWarning).toHaveBeenCalledWith('annotations Continuing without annotations.');
+    expect(spyReview).toHaveBeenCalledWith(analysisPassed, [], singleFileQualityGatePassed, undefined);
+    // the review comments of previous runs are kept, as it is unknown which of them still apply
+    expect(spyPosted).toHaveBeenCalledTimes(0);
+    expect(spyDelete).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should call setFailed without continuing if the viewer rejects the authentication', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce({ ...analysisPassed, diagnostics: [] });
+    jest.spyOn(fetcher, 'getAnalyzedFiles').mockRejectedValueOnce(new Error('files', { cause: new TicsAuthError('auth', 401, 'url') }));
+    jest.spyOn(comment, 'postErrorComment').mockImplementationOnce(() => Promise.resolve());
+    const spyQualityGate = jest.spyOn(fetcher, 'getQualityGate');
+    const spySetFailed = jest.spyOn(Logger.Instance, 'setFailed');
+
+    await main.run();
+
+    expect(spyQualityGate).toHaveBeenCalledTimes(0);
+    expect(spySetFailed).toHaveBeenCalledWith('Failed to run TiCS Github Action.');
+  });
+});
+
+describe('QServer mode', () => {
+  beforeAll(() => {
+    ticsConfig.mode = 'qserver';
+    githubConfig.defaultBranch = 'main';
+  });
+
+  afterAll(() => {
+    ticsConfig.mode = 'client';
+    githubConfig.eventName = 'pull_request';
+  });
+
+  test('Should call exit if event is not push', async () => {
+    githubConfig.eventName = 'pull_request';
+    const spyExit = jest.spyOn(Logger.Instance, 'exit');
+
+    await main.run();
+
+    expect(spyExit).toHaveBeenCalledWith(expect.stringContaining('This action can only run on push events in qserver mode.'));
+  });
+
+  test('Should call exit if push is not on the default branch', async () => {
+    githubConfig.eventName = 'push';
+    githubConfig.refname = 'feature';
+    const spyExit = jest.spyOn(Logger.Instance, 'exit');
+
+    await main.run();
+
+    expect(spyExit).toHaveBeenCalledWith(
+      expect.stringContaining('This action can only run on pushes to main in qserver mode. Found branch feature.')
+    );
+  });
+
+  test('Should call exit if mode is not supported', async () => {
+    ticsConfig.mode = 'server';
+    const spyExit = jest.spyOn(Logger.Instance, 'exit');
+
+    await main.run();
+
+    expect(spyExit).toHaveBeenCalledWith(expect.stringContaining('Mode server is not supported. Options are client or qserver.'));
+    ticsConfig.mode = 'qserver';
+  });
+
+  test('Should call setFailed if TICSQServer failed', async () => {
+    githubConfig.refname = 'main';
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(analyzer, 'runTicsQServer').mockResolvedValueOnce(analysisFailedNoUrl);
+    const spyQualityGate = jest.spyOn(fetcher, 'getQualityGate');
+    const spySetFailed = jest.spyOn(Logger.Instance, 'setFailed');
+
+    await main.run();
+
+    expect(spySetFailed).toHaveBeenCalledWith(expect.stringContaining('Failed to run TiCS Github Action.'));
+    expect(spyQualityGate).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should report the quality gate and call setFailed if quality gate failed', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(analyzer, 'runTicsQServer').mockResolvedValueOnce(analysisPassedNoUrl);
+    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce(singleFileQualityGateFailed);
+    const spyJobSummary = jest.spyOn(job_summary, 'postQualityGateJobSummary').mockImplementationOnce(() => Promise.resolve());
+    const spyReview = jest.spyOn(review, 'postReview');
+    const spySetFailed = jest.spyOn(Logger.Instance, 'setFailed');
+
+    await main.run();
+
+    expect(spyJobSummary).toHaveBeenCalledWith(singleFileQualityGateFailed);
+    expect(spyReview).toHaveBeenCalledTimes(0);
+    expect(spySetFailed).toHaveBeenCalledWith('Project failed 2 out of 2 quality gates');
+  });
+
+  test('Should not call setFailed if quality gate passed', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(analyzer, 'runTicsQServer').mockResolvedValueOnce(analysisPassedNoUrl);
+    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce(singleFileQualityGatePassed);
+    jest.spyOn(job_summary, 'postQualityGateJobSummary').mockImplementationOnce(() => Promise.resolve());
+    const spySetFailed = jest.spyOn(Logger.Instance, 'setFailed');
+
+    await main.run();
+
+    expect(spySetFailed).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should set the outputs with the quality gate of the project', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(analyzer, 'runTicsQServer').mockResolvedValueOnce(analysisPassedNoUrl);
+    jest.spyOn(fetcher, 'getQualityGate').mockResolvedValueOnce(singleFileQualityGatePassed);
+    jest.spyOn(job_summary, 'postQualityGateJobSummary').mockImplementationOnce(() => Promise.resolve());
+    const spyOutputs = jest.spyOn(outputs, 'setResultOutputs');
+
+    await main.run();
+
+    expect(spyOutputs).toHaveBeenCalledWith(analysisPassedNoUrl, [], singleFileQualityGatePassed, undefined, undefined);
+  });
+});
+
+describe('Policy', () => {
+  afterEach(() => {
+    ticsConfig.policy = '';
+    ticsConfig.checkRun = false;
+  });
+
+  test('Should call exit if the policy is invalid', async () => {
+    const spyExit = jest.spyOn(Logger.Instance, 'exit');
+    ticsConfig.policy = 'warning 5057 -> ignore';
+
+    await main.run();
+
+    expect(spyExit).toHaveBeenCalledWith(expect.stringContaining('Invalid policy: "warning 5057 -> ignore" has an unknown outcome ignore.'));
+  });
+
+  test('Should redact the reason of the policy outcome before posting it', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce({
+      ...analysisFailedNoUrl,
+      statusCode: 3,
+      diagnostics: [{ severity: 'error', code: 1234, message: 'Invalid token secret-token' }]
+    });
+    const spyReview = jest.spyOn(review, 'postNothingAnalyzedReview').mockImplementationOnce(() => Promise.resolve());
+    const clientData = ticsConfig.clientData;
+    ticsConfig.policy = 'error 1234 -> comment';
+    ticsConfig.clientData = 'secret-token';
+
+    await main.run();
+
+    ticsConfig.clientData = clientData;
+    expect(spyReview).toHaveBeenCalledWith(
+      'No quality gate to report: [ERROR 1234] Invalid token ***. The outcome is comment according to the policy rule "error 1234 -> comment".',
+      Events.COMMENT
+    );
+  });
+
+  test('Should post a commenting review for a run without quality gate if the policy says so', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce({ ...analysisFailedNoUrl, statusCode: 3, diagnostics: [] });
+    const spyReview = jest.spyOn(review, 'postNothingAnalyzedReview').mockImplementationOnce(() => Promise.resolve());
+    const spyComment = jest.spyOn(comment, 'postErrorComment');
+    const spySetFailed = jest.spyOn(Logger.Instance, 'setFailed');
+    ticsConfig.policy = 'warning 5057 -> approve\nexit code 3 -> comment';
+
+    await main.run();
+
+    expect(spyReview).toHaveBeenCalledWith(
+      'No quality gate to report: TiCS exited with code 3. The outcome is comment according to the policy rule "exit code 3 -> comment".',
+      Events.COMMENT
+    );
+    expect(spyComment).toHaveBeenCalledTimes(0);
+    expect(spySetFailed).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should create a neutral check run and no review for a neutral outcome', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce({ ...analysisFailedNoUrl, statusCode: 3, diagnostics: [] });
+    const spyCheck = jest.spyOn(check, 'postNothingAnalyzedCheckRun').mockImplementationOnce(() => Promise.resolve());
+    const spySetFailed = jest.spyOn(Logger.Instance, 'setFailed');
+    ticsConfig.policy = 'exit code 3 -> neutral';
+    ticsConfig.checkRun = true;
+
+    await main.run();
+
+    expect(spyCheck).toHaveBeenCalledWith(expect.stringContaining('TiCS exited with code 3'), 'neutral');
+    expect(spySetFailed).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should create a failed check run for a fail outcome', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce({
+      ...analysisPassedNoUrlWarning5057,
+      diagnostics: [...analysisPassedNoUrlWarning5057.diagnostics]
+    });
+    jest.spyOn(job_summary, 'postErrorJobSummary').mockImplementationOnce(() => Promise.resolve());
+    const spyCheck = jest.spyOn(check, 'postNothingAnalyzedCheckRun').mockImplementationOnce(() => Promise.resolve());
+    const spySetFailed = jest.spyOn(Logger.Instance, 'setFailed');
+    ticsConfig.policy = 'warning 5xxx -> fail';
+    ticsConfig.checkRun = true;
+
+    await main.run();
+
+    expect(spyCheck).toHaveBeenCalledWith(expect.stringContaining('fails the run according to the policy rule'), 'failure');
+    expect(spySetFailed).toHaveBeenCalledWith('Failed to run TiCS Github Action.');
+  });
+
+  test('Should fail a run with warning 5057 if the policy says so', async () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    jest.spyOn(pulls, 'getChangedFiles').mockResolvedValueOnce(singleChangedFiles);
+    jest.spyOn(pulls, 'changedFilesToFile').mockReturnValueOnce('location/changedFiles.txt');
+    jest.spyOn(analyzer, 'runTicsAnalyzer').mockResolvedValueOnce({
+      ...analysisPassedNoUrlWarning5057,
+      diagnostics: [...analysisPassedNoUrlWarning5057.diagnostics]
+    });
+    const spyReview = jest.spyOn(review, 'postNothingAnalyzedReview');
+    const spyJobSummary = jest.spyOn(job_summary, 'postErrorJobSummary').mockImplementationOnce(() => Promise.resolve());
+    const spySetFailed = jest.spyOn(Logger.Instance, 'setFailed');
+    ticsConfig.policy = 'warning 5xxx -> fail';
+
+    await main.run();
+
+    expect(spyReview).toHaveBeenCalledTimes(0);
+    expect(spyJobSummary).toHaveBeenCalledWith(
+      expect.objectContaining({
+        diagnostics: expect.arrayContaining([
+          { severity: 'error', message: '[WARNING 5057] No url ... fails the run according to the policy rule "warning 5xxx -> fail".' }
+        ])
+      })
+    );
+    expect(spySetFailed).toHaveBeenCalledWith('Failed to run TiCS Github Action.');
   });
 });
@@ -1,4 +1,4 @@
-import { QualityGate } from '../src/helper/interfaces';
+import { Analysis, QualityGate } from '../src/helper/interfaces';
 
 interface changedFile {
   sha: string;
@@ -26,7 +26,7 @@ export const singleChangedFiles: changedFile[] = [
     blob_url: 'url',
     raw_url: 'url',
     contents_url: 'url',
-    patch: '@@ -0,1 +0,1 @@',
+    patch: '@@ -1 +1 @@\n-old\n+new',
     previous_filename: undefined
   }
 ];
@@ -43,7 +43,7 @@ export const doubleChangedFiles: changedFile[] = [
     blob_url: 'url',
     raw_url: 'url',
     contents_url: 'url',
-    patch: '@@ -0,1 +0,1 @@',
+    patch: '@@ -1 +1 @@\n-old\n+new',
     previous_filename: undefined
   },
   {
@@ -56,57 +56,57 @@ export const doubleChangedFiles: changedFile[] = [
     blob_url: 'url',
     raw_url: 'url',
     contents_url: 'url',
-    patch: '@@ -0,1 +0,1 @@',
+    patch: '@@ -1 +1 @@\n-old\n+new',
     previous_filename: undefined
   }
 ];
 
-export const analysisFailedNoUrl = {
+export const analysisFailedNoUrl: Analysis = {
   completed: false,
   statusCode: 1,
   explorerUrl: undefined,
-  errorList: ['Error'],
-  warningList: []
+  diagnostics: [{ severity: 'error', message: 'Error' }]
 };
 
-export const analysisFailedUrl = {
+export const analysisFailedUrl: Analysis = {
   completed: false,
   statusCode: 1,
   explorerUrl: undefined,
-  errorList: ['Error'],
-  warningList: []
+  diagnostics: [{ severity: 'error', message: 'Error' }]
 };
 
-export const analysisPassedNoUrl = {
+export const analysisPassedNoUrl: Analysis = {
   completed: true,
   statusCode: 0,
   explorerUrl: undefined,
-  errorList: ['Error'],
-  warningList: []
+  diagnostics: [{ severity: 'error', message: 'Error' }]
 };
 
-export const analysisPassedNoUrlWarning5057 = {
+export const analysisPassedNoUrlWarning5057: Analysis = {
   completed: true,
   statusCode: 0,
   explorerUrl: undefined,
-  errorList: ['Error'],
-  warningList: ['[WARNING 5057] No url ...']
+  diagnostics: [
+    { severity: 'error', message: 'Error' },
+    { severity: 'warning', code: 5057, message: 'No url ...' }
+  ]
 };
 
-export const analysisPassed = {
+export const analysisPassed: Analysis = {
   completed: true,
   statusCode: 0,
   explorerUrl: 'explorerUrl',
-  errorList: ['Error'],
-  warningList: []
+  diagnostics: [{ severity: 'error', message: 'Error' }]
 };
 
-export const analysisPassedNoUrlWarning = {
+export const analysisPassedNoUrlWarning: Analysis = {
   completed: true,
   statusCode: 0,
   explorerUrl: undefined,
-  errorList: ['Error'],
-  warningList: ['[WARNING 5057] No files have been analyzed.']
+  diagnostics: [
+    { severity: 'error', message: 'Error' },
+    { severity: 'warning', code: 5057, message: 'No files have been analyzed.' }
+  ]
 };
 
 export const singleFileQualityGateFailed: QualityGate = {
@@ -289,7 +289,7 @@ export const doubleFileQualityGatePassed: QualityGate = {
 export const singleAnnotations = [
   {
     fullPath: 'c:/src/test.js',
-    line: 0,
+    line: 1,
     level: 1,
     category: 'test',
     type: 'test',
@@ -301,7 +301,8 @@ export const singleAnnotations = [
 
 export const singlePreviousReviewComments = [
   {
-    id: 1
+    id: 1,
+    body: ':warning: **TiCS: test violation: test**\r\nLine: 1, Rule: test, Level: 1, Category: test\r\n<!-- tics-fingerprint: 0123456789abcdef -->'
   }
 ];
 
@@ -309,9 +310,12 @@ export const singleExpectedPostable = {
   postable: [
     {
       path: 'test.js',
-      line: 0,
-      body: ':warning: **TiCS: test violation: test**\r\nLine: 0, Rule: test, Level: 1, Category: test\r\n'
+      line: 1,
+      body: expect.stringMatching(
+        /^:warning: \*\*TiCS: test violation: test\*\*\r\nLine: 1, Rule: test, Level: 1, Category: test\r\n<!-- tics-fingerprint: [0-9a-f]{16} -->$/
+      )
     }
   ],
-  unpostable: []
+  unpostable: [],
+  fingerprints: [{ fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/), path: 'test.js', line: 1, rule: 'test' }]
 };
@@ -1,14 +1,29 @@
-import * as exec from '@actions/exec';
+import * as processHelper from '../../src/helper/process';
 import * as api_helper from '../../src/tics/api_helper';
+import * as install_cache from '../../src/tics/install_cache';
 import { githubConfig, ticsConfig } from '../../src/configuration';
 import Logger from '../../src/helper/logger';
-import { runTicsAnalyzer } from '../../src/tics/analyzer';
+import { runTicsAnalyzer, runTicsQServer } from '../../src/tics/analyzer';
+
+jest.mock('../../src/helper/process', () => {
+  return {
+    ...jest.requireActual('../../src/helper/process'),
+    runProcess: jest.fn(),
+    getProcessOutput: jest.fn()
+  };
+});
+
+const execOptions = {
+  cwd: undefined,
+  listeners: { stderr: expect.any(Function), stdout: expect.any(Function) },
+  timeout: undefined
+};
 
 // test for multiple different types of configurations
 describe('test multiple types of configuration', () => {
   test('Should call exec with minimal TiCS command for Linux', async () => {
-    const spy = jest.spyOn(exec, 'exec');
-    (exec.exec as any).mockResolvedValueOnce(0);
+    const spy = jest.spyOn(processHelper, 'runProcess');
+    (processHelper.runProcess as any).mockResolvedValueOnce(0);
 
     githubConfig.runnerOS = 'Linux';
 
@@ -16,15 +31,12 @@ describe('test multiple types of configuration', () => {
 
     expect(response.statusCode).toEqual(0);
     expect(response.completed).toEqual(true);
-    expect(spy).toHaveBeenCalledWith('/bin/bash -c " TICS @/path/to -viewer -project \'project\' -calc GATE "', [], {
-      listeners: { stderr: expect.any(Function), stdout: expect.any(Function) },
-      silent: true
-    });
+    expect(spy).toHaveBeenCalledWith('TICS', ['@/path/to', '-viewer', '-project', 'project', '-calc', 'GATE'], execOptions);
   });
 
   test('Should call exec with minimal TiCS command for Windows', async () => {
-    const spy = jest.spyOn(exec, 'exec');
-    (exec.exec as any).mockResolvedValueOnce(0);
+    const spy = jest.spyOn(processHelper, 'runProcess');
+    (processHelper.runProcess as any).mockResolvedValueOnce(0);
 
     githubConfig.runnerOS = 'Windows';
 
@@ -32,20 +44,18 @@ describe('test multiple types of configuration', () => {
 
     expect(response.statusCode).toEqual(0);
     expect(response.completed).toEqual(true);
-    expect(spy).toHaveBeenCalledWith(`powershell "; if ($?) {TICS @/path/to -viewer -project \'project\' -calc GATE }"`, [], {
-      listeners: { stderr: expect.any(Function), stdout: expect.any(Function) },
-      silent: true
-    });
+    expect(spy).toHaveBeenCalledWith('TICS', ['@/path/to', '-viewer', '-project', 'project', '-calc', 'GATE'], execOptions);
   });
 
-  test('Should call exec with run TiCS command for Linux', async () => {
-    const spy = jest.spyOn(exec, 'exec');
-    (exec.exec as any).mockResolvedValueOnce(0);
+  test('Should call exec with run TiCS command', async () => {
+    const spy = jest.spyOn(processHelper, 'runProcess');
+    (processHelper.runProcess as any).mockResolvedValueOnce(0);
 
     ticsConfig.calc = 'CS';
     ticsConfig.clientData = 'token';
     ticsConfig.tmpDir = '/home/ubuntu/test';
     ticsConfig.additionalFlags = '-log 9';
+    githubConfig.debugger = true;
 
     githubConfig.runnerOS = 'Linux';
 
@@ -54,165 +64,481 @@ describe('test multiple types of configuration', () => {
     expect(response.statusCode).toEqual(0);
     expect(response.completed).toEqual(true);
     expect(spy).toHaveBeenCalledWith(
-      "/bin/bash -c \" TICS @/path/to -viewer -project 'project' -calc CS -cdtoken token -tmpdir '/home/ubuntu/test' -log 9\"",
-      [],
+      'TICS',
+      ['@/path/to', '-viewer', '-project', 'project', '-calc', 'CS', '-cdtoken', 'token', '-tmpdir', '/home/ubuntu/test', '-log', '9'],
+      execOptions
+    );
+  });
+
+  test('Should pass quotes in inputs as part of the arguments', async () => {
+    const spy = jest.spyOn(processHelper, 'runProcess');
+    (processHelper.runProcess as any).mockResolvedValueOnce(0);
+
+    ticsConfig.projectName = `it's "quoted"; rm -rf /`;
+    ticsConfig.additionalFlags = `-tmpdir 'C:\\My Temp' -extra "a \\"b\\"" $(whoami)`;
+
+    await runTicsAnalyzer('/path/to');
+    ticsConfig.projectName = 'project';
+
+    expect(spy).toHaveBeenCalledWith(
+      'TICS',
+      [
+        '@/path/to',
+        '-viewer',
+        '-project',
+        `it's "quoted"; rm -rf /`,
+        '-calc',
+        'CS',
+        '-cdtoken',
+        'token',
+        '-tmpdir',
+        '/home/ubuntu/test',
+        '-tmpdir',
+        'C:\\My Temp',
+        '-extra',
+        'a "b"',
+        '$(whoami)',
+        '-log',
+        '9'
+      ],
+      execOptions
+    );
+  });
+
+  test('Should not run TiCS if the additionalFlags cannot be parsed', async () => {
+    const spy = jest.spyOn(processHelper, 'runProcess');
+
+    const spyError = jest.spyOn(Logger.Instance, 'error');
+
+    ticsConfig.additionalFlags = `-extra 'unterminated`;
+
+    const response = await runTicsAnalyzer('/path/to');
+
+    expect(response.completed).toEqual(false);
+    expect(spy).toHaveBeenCalledTimes(0);
+    expect(spyError).toHaveBeenCalledWith(expect.stringContaining('Could not parse additionalFlags'));
+    expect(response.diagnostics).toEqual([
+      { severity: 'error', message: "Could not parse additionalFlags: Unterminated ' in arguments: -extra 'unterminated" }
+    ]);
+  });
+
+  test('Should explain that TiCS is not on the PATH if it cannot be started', async () => {
+    (processHelper.runProcess as any).mockRejectedValueOnce(Object.assign(new Error('spawn TICS ENOENT'), { code: 'ENOENT' }));
+
+    ticsConfig.additionalFlags = '';
+
+    const response = await runTicsAnalyzer('/path/to');
+
+    expect(response.completed).toEqual(false);
+    expect(response.diagnostics).toEqual([
       {
-        listeners: { stderr: expect.any(Function), stdout: expect.any(Function) },
-        silent: true
+        severity: 'error',
+        message: 'Could not run TICS, as it is not found on the PATH. Install TiCS on the runner or set installTics to true.'
       }
-    );
+    ]);
   });
 
-  test('Should call exec with run TiCS command for Windows', async () => {
-    const spy = jest.spyOn(exec, 'exec');
-    (exec.exec as any).mockResolvedValueOnce(0);
+  test('Should call exec with full TiCS command', async () => {
+    (processHelper.runProcess as any).mockResolvedValueOnce(0);
+    const spy = jest.spyOn(processHelper, 'runProcess');
 
     ticsConfig.calc = 'CS';
     ticsConfig.clientData = 'token';
     ticsConfig.tmpDir = '/home/ubuntu/test';
-    ticsConfig.additionalFlags = '-log 9';
-
-    githubConfig.runnerOS = 'Windows';
+    ticsConfig.additionalFlags = '';
+    ticsConfig.nocalc = 'CW';
+    ticsConfig.recalc = 'CY';
+    ticsConfig.norecalc = 'CD';
+    ticsConfig.codetype = 'TESTCODE';
+    githubConfig.debugger = true;
 
     const response = await runTicsAnalyzer('/path/to');
 
     expect(response.statusCode).toEqual(0);
     expect(response.completed).toEqual(true);
     expect(spy).toHaveBeenCalledWith(
-      "powershell \"; if ($?) {TICS @/path/to -viewer -project 'project' -calc CS -cdtoken token -tmpdir '/home/ubuntu/test' -log 9}\"",
-      [],
-      {
-        listeners: { stderr: expect.any(Function), stdout: expect.any(Function) },
-        silent: true
-      }
+      'TICS',
+      [
+        '@/path/to',
+        '-viewer',
+        '-project',
+        'project',
+        '-calc',
+        'CS',
+        '-nocalc',
+        'CW',
+        '-recalc',
+        'CY',
+        '-norecalc',
+        'CD',
+        '-codetype',
+        'TESTCODE',
+        '-cdtoken',
+        'token',
+        '-tmpdir',
+        '/home/ubuntu/test',
+        '-log',
+        '9'
+      ],
+      execOptions
     );
   });
+});
+
+describe('test installing TiCS', () => {
+  const environment = { ...process.env };
+
+  beforeAll(() => {
+    ticsConfig.calc = '';
+    ticsConfig.nocalc = '';
+    ticsConfig.recalc = '';
+    ticsConfig.norecalc = '';
+    ticsConfig.codetype = '';
+    ticsConfig.clientData = '';
+    ticsConfig.tmpDir = '';
+    ticsConfig.additionalFlags = '';
+    githubConfig.debugger = false;
+  });
 
-  test('Should call exec with full TiCS command for Linux, trustStrategy self-signed', async () => {
-    (exec.exec as any).mockResolvedValueOnce(0);
+  afterEach(() => {
+    process.env = { ...environment };
+  });
+
+  afterAll(() => {
+    ticsConfig.installTics = false;
+    ticsConfig.trustStrategy = '';
+  });
+
+  test('Should install TiCS for Linux with trustStrategy self-signed and apply the environment', async () => {
     jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ links: { installTics: 'url' } }));
-    const spy = jest.spyOn(exec, 'exec');
+    const spyInstall = jest.spyOn(processHelper, 'getProcessOutput').mockResolvedValueOnce({
+      exitCode: 0,
+      stdout: `Installing TiCS\n=== tics-github-action environment ===\nPATH=/opt/tics/bin:/usr/bin\0TICS=/opt/tics/cfg\0_=/usr/bin/env\0`,
+      stderr: ''
+    });
+    const spyRun = jest.spyOn(processHelper, 'runProcess').mockResolvedValueOnce(0);
 
-    ticsConfig.calc = 'CS';
-    ticsConfig.clientData = 'token';
-    ticsConfig.tmpDir = '/home/ubuntu/test';
-    ticsConfig.additionalFlags = '-log 9';
     ticsConfig.installTics = true;
     ticsConfig.trustStrategy = 'self-signed';
-
     githubConfig.runnerOS = 'Linux';
 
     const response = await runTicsAnalyzer('/path/to');
 
-    expect(response.statusCode).toEqual(0);
     expect(response.completed).toEqual(true);
-    expect(spy).toHaveBeenCalledWith(
-      "/bin/bash -c \"source <(curl --silent --insecure 'http://base.com/url') && TICS @/path/to -viewer -project 'project' -calc CS -cdtoken token -tmpdir '/home/ubuntu/test' -log 9\"",
-      [],
-      {
-        listeners: { stderr: expect.any(Function), stdout: expect.any(Function) },
-        silent: true
-      }
+    expect(spyInstall).toHaveBeenCalledWith(
+      '/bin/bash',
+      ['-c', `source <(curl --silent --insecure "$TICS_INSTALL_URL") && echo '=== tics-github-action environment ===' && env -0`],
+      { env: expect.objectContaining({ TICS_INSTALL_URL: 'http://base.com/url' }) }
     );
+    expect(process.env.PATH).toEqual('/opt/tics/bin:/usr/bin');
+    expect(process.env.TICS).toEqual('/opt/tics/cfg');
+    expect(process.env._).toEqual(environment._);
+    expect(spyRun).toHaveBeenCalledWith('TICS', ['@/path/to', '-viewer', '-project', 'project', '-calc', 'GATE'], execOptions);
   });
 
-  test('Should call exec with full TiCS command for Windows, no trustStrategy set', async () => {
-    (exec.exec as any).mockResolvedValueOnce(0);
+  test('Should install TiCS for Windows with trustStrategy all and apply the environment', async () => {
     jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ links: { installTics: 'url' } }));
-    const spy = jest.spyOn(exec, 'exec');
+    const spyInstall = jest.spyOn(processHelper, 'getProcessOutput').mockResolvedValueOnce({
+      exitCode: 0,
+      stdout: `Installing TiCS\n=== tics-github-action environment ===\n{"TICS":"C:\\\\tics\\\\cfg"}\n`,
+      stderr: ''
+    });
+    jest.spyOn(processHelper, 'runProcess').mockResolvedValueOnce(0);
 
-    ticsConfig.calc = 'CS';
-    ticsConfig.clientData = 'token';
-    ticsConfig.tmpDir = '/home/ubuntu/test';
-    ticsConfig.additionalFlags = '-log 9';
     ticsConfig.installTics = true;
-    ticsConfig.trustStrategy = '';
+    ticsConfig.trustStrategy = 'all';
+    githubConfig.runnerOS = 'Windows';
+
+    const response = await runTicsAnalyzer('/path/to');
 
+    expect(response.completed).toEqual(true);
+    expect(spyInstall).toHaveBeenCalledWith(
+      'powershell',
+      [
+        '-NoProfile',
+        '-NonInteractive',
+        '-Command',
+        "Set-ExecutionPolicy Bypass -Scope Process -Force; [System.Net.ServicePointManager]::SecurityProtocol = [System.Net.ServicePointManager]::SecurityProtocol -bor 3072; [System.Net.ServicePointManager]::ServerCertificateValidationCallback = {$true}; iex ((New-Object System.Net.WebClient).DownloadString($env:TICS_INSTALL_URL)); if ($?) { Write-Output '=== tics-github-action environment ==='; [Environment]::GetEnvironmentVariables() | ConvertTo-Json -Compress }"
+      ],
+      { env: expect.objectContaining({ TICS_INSTALL_URL: 'http://base.com/url' }) }
+    );
+    expect(process.env.TICS).toEqual('C:\\tics\\cfg');
+  });
+
+  test('Should verify the installer download on Linux with the caBundle', async () => {
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ links: { installTics: 'url' } }));
+    const spyInstall = jest.spyOn(processHelper, 'getProcessOutput').mockResolvedValueOnce({
+      exitCode: 0,
+      stdout: `Installing TiCS\n=== tics-github-action environment ===\nTICS_CA_BUNDLE=/path/to/ca.pem\0`,
+      stderr: ''
+    });
+    jest.spyOn(processHelper, 'runProcess').mockResolvedValueOnce(0);
+
+    ticsConfig.installTics = true;
+    ticsConfig.trustStrategy = 'self-signed';
+    ticsConfig.caBundle = '/path/to/ca.pem';
+    githubConfig.runnerOS = 'Linux';
+
+    await runTicsAnalyzer('/path/to');
+
+    expect(spyInstall).toHaveBeenCalledWith(
+      '/bin/bash',
+      ['-c', `source <(curl --silent --cacert "$TICS_CA_BUNDLE" "$TICS_INSTALL_URL") && echo '=== tics-github-action environment ===' && env -0`],
+      { env: expect.objectContaining({ TICS_INSTALL_URL: 'http://base.com/url', TICS_CA_BUNDLE: '/path/to/ca.pem' }) }
+    );
+    expect(process.env.TICS_CA_BUNDLE).toBeUndefined();
+    ticsConfig.caBundle = '';
+  });
+
+  test('Should verify the installer download on Windows with the caBundle', async () => {
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ links: { installTics: 'url' } }));
+    const spyInstall = jest.spyOn(processHelper, 'getProcessOutput').mockResolvedValueOnce({
+      exitCode: 0,
+      stdout: `Installing TiCS\n=== tics-github-action environment ===\n{}\n`,
+      stderr: ''
+    });
+    jest.spyOn(processHelper, 'runProcess').mockResolvedValueOnce(0);
+
+    ticsConfig.installTics = true;
+    ticsConfig.trustStrategy = 'strict';
+    ticsConfig.caBundle = 'C:\\ca.pem';
     githubConfig.runnerOS = 'Windows';
 
+    await runTicsAnalyzer('/path/to');
+
+    const command = (spyInstall.mock.calls[0][1] as string[])[3];
+    expect(command).toContain('$ca.Import($env:TICS_CA_BUNDLE);');
+    expect(command).toContain('$caChain.ChainPolicy.ExtraStore.AddRange($ca);');
+    expect(command).not.toContain('ServerCertificateValidationCallback = {$true}');
+    expect(spyInstall.mock.calls[0][2]).toEqual({ env: expect.objectContaining({ TICS_CA_BUNDLE: 'C:\\ca.pem' }) });
+    ticsConfig.caBundle = '';
+  });
+
+  test('Should not run TiCS if the installation failed', async () => {
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ links: { installTics: 'url' } }));
+    jest.spyOn(processHelper, 'getProcessOutput').mockRejectedValueOnce(new Error('exit code 1'));
+    const spyRun = jest.spyOn(processHelper, 'runProcess');
+    const spyError = jest.spyOn(Logger.Instance, 'error');
+
+    ticsConfig.installTics = true;
+    githubConfig.runnerOS = 'Linux';
+
+    const response = await runTicsAnalyzer('/path/to');
+
+    expect(response.completed).toEqual(false);
+    expect(spyRun).toHaveBeenCalledTimes(0);
+    expect(spyError).toHaveBeenCalledWith('Failed to install TiCS: exit code 1');
+    expect(response.diagnostics).toEqual([{ severity: 'error', message: 'Failed to install TiCS: exit code 1' }]);
+  });
+
+  test('Should not run TiCS if the environment is not printed after installing', async () => {
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ links: { installTics: 'url' } }));
+    jest.spyOn(processHelper, 'getProcessOutput').mockResolvedValueOnce({ exitCode: 0, stdout: 'Installing TiCS\n', stderr: '' });
+    const spyRun = jest.spyOn(processHelper, 'runProcess');
+
+    ticsConfig.installTics = true;
+    githubConfig.runnerOS = 'Linux';
+
     const response = await runTicsAnalyzer('/path/to');
 
+    expect(response.completed).toEqual(false);
+    expect(spyRun).toHaveBeenCalledTimes(0);
+    expect(response.diagnostics).toEqual([{ severity: 'error', message: 'Could not retrieve the environment after installing TiCS.' }]);
+  });
+
+  test('Should restore TiCS from the tool cache instead of installing it', async () => {
+    jest.spyOn(install_cache, 'getInstallationCacheDirectory').mockResolvedValueOnce('/toolcache/TICS/2023.1.0/linux');
+    jest.spyOn(install_cache, 'restoreInstallation').mockReturnValueOnce({ PATH: '/toolcache/TICS/2023.1.0/linux/bin:/usr/bin' });
+    const spyRequest = jest.spyOn(api_helper, 'httpRequest');
+    const spyInstall = jest.spyOn(processHelper, 'getProcessOutput');
+    const spyRun = jest.spyOn(processHelper, 'runProcess').mockResolvedValueOnce(0);
+
+    ticsConfig.installTics = true;
+    githubConfig.runnerOS = 'Linux';
+
+    const response = await runTicsAnalyzer('/path/to');
+
+    expect(response.completed).toEqual(true);
+    expect(spyRequest).toHaveBeenCalledTimes(0);
+    expect(spyInstall).toHaveBeenCalledTimes(0);
+    expect(process.env.PATH).toEqual('/toolcache/TICS/2023.1.0/linux/bin:/usr/bin');
+    expect(spyRun).toHaveBeenCalledTimes(1);
+  });
+
+  test('Should cache the installation if it is not in the tool cache', async () => {
+    jest.spyOn(install_cache, 'getInstallationCacheDirectory').mockResolvedValueOnce('/toolcache/TICS/2023.1.0/linux');
+    jest.spyOn(install_cache, 'restoreInstallation').mockReturnValueOnce(undefined);
+    const spySave = jest.spyOn(install_cache, 'saveInstallation').mockImplementationOnce(() => undefined);
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ links: { installTics: 'url' } }));
+    jest.spyOn(processHelper, 'getProcessOutput').mockResolvedValueOnce({
+      exitCode: 0,
+      stdout: `Installing TiCS\n=== tics-github-action environment ===\nPATH=/opt/tics/bin:/usr/bin\0TICS=/opt/tics/cfg\0_=/usr/bin/env\0`,
+      stderr: ''
+    });
+    jest.spyOn(processHelper, 'runProcess').mockResolvedValueOnce(0);
+
+    ticsConfig.installTics = true;
+    githubConfig.runnerOS = 'Linux';
+
+    const response = await runTicsAnalyzer('/path/to');
+
+    expect(response.completed).toEqual(true);
+    expect(spySave).toHaveBeenCalledWith('/toolcache/TICS/2023.1.0/linux', { PATH: '/opt/tics/bin:/usr/bin', TICS: '/opt/tics/cfg' });
+    expect(process.env.TICS).toEqual('/opt/tics/cfg');
+  });
+});
+
+describe('test QServer configuration', () => {
+  afterAll(() => {
+    ticsConfig.branchName = '';
+    ticsConfig.installTics = true;
+    githubConfig.branchdir = '';
+  });
+
+  test('Should call exec with minimal TICSQServer command', async () => {
+    const spy = jest.spyOn(processHelper, 'runProcess');
+    (processHelper.runProcess as any).mockResolvedValueOnce(0);
+
+    ticsConfig.calc = '';
+    ticsConfig.nocalc = '';
+    ticsConfig.recalc = '';
+    ticsConfig.norecalc = '';
+    ticsConfig.tmpDir = '';
+    ticsConfig.additionalFlags = '';
+    ticsConfig.installTics = false;
+    githubConfig.debugger = false;
+    githubConfig.runnerOS = 'Linux';
+
+    const response = await runTicsQServer();
+
+    expect(response.statusCode).toEqual(0);
+    expect(response.completed).toEqual(true);
+    expect(spy).toHaveBeenCalledWith('TICSQServer', ['-project', 'project'], execOptions);
+  });
+
+  test('Should call exec with full TICSQServer command', async () => {
+    const spy = jest.spyOn(processHelper, 'runProcess');
+    (processHelper.runProcess as any).mockResolvedValueOnce(0);
+
+    ticsConfig.branchName = 'main';
+    ticsConfig.calc = 'ALL';
+    ticsConfig.recalc = 'CY';
+    ticsConfig.tmpDir = '/home/ubuntu/test';
+    githubConfig.branchdir = '/home/ubuntu/repo';
+    githubConfig.debugger = true;
+    githubConfig.runnerOS = 'Windows';
+
+    const response = await runTicsQServer();
+
     expect(response.statusCode).toEqual(0);
     expect(response.completed).toEqual(true);
     expect(spy).toHaveBeenCalledWith(
-      "powershell \"Set-ExecutionPolicy Bypass -Scope Process -Force; [System.Net.ServicePointManager]::SecurityProtocol = [System.Net.ServicePointManager]::SecurityProtocol -bor 3072;  iex ((New-Object System.Net.WebClient).DownloadString('http://base.com/url')); if ($?) {TICS @/path/to -viewer -project 'project' -calc CS -cdtoken token -tmpdir '/home/ubuntu/test' -log 9}\"",
-      [],
-      {
-        listeners: { stderr: expect.any(Function), stdout: expect.any(Function) },
-        silent: true
-      }
+      'TICSQServer',
+      [
+        '-project',
+        'project',
+        '-branchname',
+        'main',
+        '-branchdir',
+        '/home/ubuntu/repo',
+        '-calc',
+        'ALL',
+        '-recalc',
+        'CY',
+        '-tmpdir',
+        '/home/ubuntu/test',
+        '-log',
+        '9'
+      ],
+      { ...execOptions, cwd: '/home/ubuntu/repo' }
     );
   });
 });
 
-test('Should call exec with full TiCS command for Windows, trustStrategy set to all', async () => {
-  (exec.exec as any).mockResolvedValueOnce(0);
-  jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ links: { installTics: 'url' } }));
-  const spy = jest.spyOn(exec, 'exec');
-
-  ticsConfig.calc = 'CS';
-  ticsConfig.clientData = 'token';
-  ticsConfig.tmpDir = '/home/ubuntu/test';
-  ticsConfig.additionalFlags = '';
-  ticsConfig.installTics = true;
-  ticsConfig.trustStrategy = 'all';
-  ticsConfig.nocalc = 'CW';
-  ticsConfig.recalc = 'CY';
-  ticsConfig.norecalc = 'CD';
-  ticsConfig.codetype = 'TESTCODE';
-  githubConfig.debugger = true;
-
-  githubConfig.runnerOS = 'Windows';
-
-  const response = await runTicsAnalyzer('/path/to');
-
-  expect(response.statusCode).toEqual(0);
-  expect(response.completed).toEqual(true);
-  expect(spy).toHaveBeenCalledWith(
-    "powershell \"Set-ExecutionPolicy Bypass -Scope Process -Force; [System.Net.ServicePointManager]::SecurityProtocol = [System.Net.ServicePointManager]::SecurityProtocol -bor 3072; [System.Net.ServicePointManager]::ServerCertificateValidationCallback = {$true}; iex ((New-Object System.Net.WebClient).DownloadString('http://base.com/url')); if ($?) {TICS @/path/to -viewer -project 'project' -calc CS -nocalc CW -recalc CY -norecalc CD -codetype TESTCODE -cdtoken token -tmpdir '/home/ubuntu/test'  -log 9}\"",
-    [],
-    {
-      listeners: { stderr: expect.any(Function), stdout: expect.any(Function) },
-      silent: true
-    }
-  );
+describe('test branch configuration', () => {
+  afterAll(() => {
+    ticsConfig.branchName = '';
+    ticsConfig.installTics = false;
+    githubConfig.branchdir = '';
+  });
+
+  test('Should call exec with branchname and branchdir in the directory of the branch', async () => {
+    const spy = jest.spyOn(processHelper, 'runProcess');
+    (processHelper.runProcess as any).mockResolvedValueOnce(0);
+
+    ticsConfig.calc = '';
+    ticsConfig.recalc = '';
+    ticsConfig.tmpDir = '';
+    ticsConfig.installTics = false;
+    ticsConfig.branchName = 'main';
+    githubConfig.branchdir = '/home/runner/work/repo/sub';
+    githubConfig.debugger = false;
+    githubConfig.runnerOS = 'Linux';
+
+    await runTicsAnalyzer('/path/to');
+
+    expect(spy).toHaveBeenCalledWith(
+      'TICS',
+      ['@/path/to', '-viewer', '-project', 'project', '-branchname', 'main', '-branchdir', '/home/runner/work/repo/sub', '-calc', 'GATE'],
+      { ...execOptions, cwd: '/home/runner/work/repo/sub' }
+    );
+  });
 });
 
-// test exec callback function (like findInStdOutOrErr)
+// test exec callback function (like findInLine)
 describe('test callback functions', () => {
-  test('Should return single error if already exists in errorlist', async () => {
+  test('Should return every occurrence of an error in diagnostics', async () => {
     const response = await runTicsAnalyzer('/path/to');
-    (exec.exec as any).mock.calls[0][2].listeners.stderr('[ERROR 666] Error');
-    (exec.exec as any).mock.calls[0][2].listeners.stderr('[ERROR 666] Error');
+    (processHelper.runProcess as any).mock.calls[0][2].listeners.stderr('[ERROR 666] Error\n');
+    (processHelper.runProcess as any).mock.calls[0][2].listeners.stderr('[ERROR 666] Error\n');
 
-    expect(response.errorList.length).toEqual(1);
-    expect(response.errorList).toEqual(['[ERROR 666] Error']);
+    expect(response.diagnostics).toEqual([
+      { severity: 'error', code: 666, message: 'Error' },
+      { severity: 'error', code: 666, message: 'Error' }
+    ]);
   });
 
-  test('Should return two errors in errorlist', async () => {
+  test('Should return warnings that are split over multiple chunks', async () => {
     const response = await runTicsAnalyzer('/path/to');
-    (exec.exec as any).mock.calls[0][2].listeners.stderr('[ERROR 666] Error');
-    (exec.exec as any).mock.calls[0][2].listeners.stderr('[ERROR 777] Different error');
+    const stdout = (processHelper.runProcess as any).mock.calls[0][2].listeners.stdout;
+    stdout('[WARNING 666] War');
+    stdout('ning\n[WARN');
+    stdout('ING 777] src/main.c(12): Warning\n');
+
+    expect(response.diagnostics).toEqual(
+      expect.arrayContaining([
+        { severity: 'warning', code: 666, message: 'Warning' },
+        { severity: 'warning', code: 777, message: 'Warning', file: 'src/main.c', line: 12 }
+      ])
+    );
+  });
+
+  test('Should log the hint of a known code next to the warning', async () => {
+    const spyInfo = jest.spyOn(Logger.Instance, 'info');
 
-    expect(response.errorList.length).toEqual(2);
-    expect(response.errorList).toEqual(['[ERROR 666] Error', '[ERROR 777] Different error']);
+    await runTicsAnalyzer('/path/to');
+    (processHelper.runProcess as any).mock.calls[0][2].listeners.stdout('[WARNING 5057] No files to analyze\n');
+
+    expect(spyInfo).toHaveBeenCalledWith(expect.stringMatching(/^\[WARNING 5057\] Hint: None of the changed files/));
   });
 
-  test('Should return warnings in warningList', async () => {
+  test('Should return a diagnostic without line break at the end of the output', async () => {
+    (processHelper.runProcess as any).mockImplementationOnce((_program: string, _args: string[], options: processHelper.ProcessOptions) => {
+      options.listeners?.stderr?.(Buffer.from('[ERROR 888] Last error'));
+      return Promise.resolve(1);
+    });
+
     const response = await runTicsAnalyzer('/path/to');
-    (exec.exec as any).mock.calls[0][2].listeners.stdout('[WARNING 666] Warning');
-    (exec.exec as any).mock.calls[0][2].listeners.stdout('[WARNING 777] Warning');
 
-    expect(response.warningList.length).toEqual(2);
-    expect(response.warningList).toEqual(['[WARNING 666] Warning', '[WARNING 777] Warning']);
+    expect(response.diagnostics).toContainEqual({ severity: 'error', code: 888, message: 'Last error' });
   });
 
   test('Should add ExplorerUrl in response', async () => {
     jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
 
     await runTicsAnalyzer('/path/to');
-    (exec.exec as any).mock.calls[0][2].listeners.stdout('http://localhost/Explorer.html#axes=ClientData');
-    (exec.exec as any).mockResolvedValueOnce(0);
+    (processHelper.runProcess as any).mock.calls[0][2].listeners.stdout('http://localhost/Explorer.html#axes=ClientData\n');
+    (processHelper.runProcess as any).mockResolvedValueOnce(0);
     const response = await runTicsAnalyzer('/path/to');
 
     expect(response.explorerUrl).toEqual('<url>/Explorer.html#axes=ClientData');
@@ -221,10 +547,9 @@ describe('test callback functions', () => {
 
 describe('throwing errors', () => {
   test('Should throw error on exec', async () => {
-    (exec.exec as any).mockImplementationOnce(() => {
+    (processHelper.runProcess as any).mockImplementationOnce(() => {
       throw new Error();
     });
-    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ links: { installTics: 'url' } }));
 
     const response = await runTicsAnalyzer('');
 
@@ -232,12 +557,88 @@ describe('throwing errors', () => {
     expect(response.completed).toEqual(false);
   });
 
-  test('Should throw error on httpRequest in retrieveInstallTics', async () => {
-    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.reject(new Error()));
-    const spy = jest.spyOn(Logger.Instance, 'exit');
+  test('Should not run TiCS on error on httpRequest in retrieveInstallTics', async () => {
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.reject(new Error('error')));
+    const spy = jest.spyOn(Logger.Instance, 'error');
+
+    ticsConfig.installTics = true;
+
+    const response = await runTicsAnalyzer('');
 
-    await runTicsAnalyzer('');
+    expect(spy).toHaveBeenCalledWith('An error occurred when trying to retrieve configuration information: error');
+    expect(processHelper.runProcess).toHaveBeenCalledTimes(0);
+    expect(response.completed).toEqual(false);
+    expect(response.diagnostics).toEqual([
+      { severity: 'error', message: 'An error occurred when trying to retrieve configuration information: error' }
+    ]);
+  });
+});
+
+describe('analysisTimeout', () => {
+  beforeEach(() => {
+    ticsConfig.installTics = false;
+  });
+
+  afterEach(() => {
+    ticsConfig.analysisTimeout = 0;
+    ticsConfig.installTics = false;
+  });
+
+  test('Should pass the analysisTimeout to TiCS', async () => {
+    (processHelper.runProcess as any).mockResolvedValueOnce(0);
+    ticsConfig.analysisTimeout = 30;
+
+    await runTicsAnalyzer('/path/to');
+
+    const timeout = (processHelper.runProcess as any).mock.calls[0][2].timeout;
+    expect(timeout).toBeGreaterThan(29 * 60000);
+    expect(timeout).toBeLessThanOrEqual(30 * 60000);
+  });
 
-    expect(spy).toHaveBeenCalledTimes(1);
+  test('Should record a timeout during the analysis', async () => {
+    (processHelper.runProcess as any).mockRejectedValueOnce(new processHelper.ProcessTimeoutError('TICS', 60000));
+    ticsConfig.analysisTimeout = 1;
+
+    const response = await runTicsAnalyzer('/path/to');
+
+    expect(response.completed).toEqual(false);
+    expect(response.timeout).toEqual({ phase: 'analysis', minutes: 1 });
+    expect(response.diagnostics).toContainEqual({
+      severity: 'error',
+      message: 'TiCS timed out during the analysis phase, as it did not finish within the analysisTimeout of 1 minute(s).'
+    });
+  });
+
+  test('Should record a timeout during the upload to the viewer', async () => {
+    (processHelper.runProcess as any).mockImplementationOnce((_program: string, _args: string[], options: processHelper.ProcessOptions) => {
+      options.listeners?.stdout?.(Buffer.from('[INFO 1234] Uploading results to the viewer\n'));
+      return Promise.reject(new processHelper.ProcessTimeoutError('TICS', 60000));
+    });
+    ticsConfig.analysisTimeout = 1;
+
+    const response = await runTicsAnalyzer('/path/to');
+
+    expect(response.timeout).toEqual({ phase: 'upload', minutes: 1 });
+  });
+
+  test('Should record a timeout during the installation', async () => {
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ links: { installTics: 'url' } }));
+    (processHelper.getProcessOutput as any).mockRejectedValueOnce(new processHelper.ProcessTimeoutError('/bin/bash', 60000));
+    ticsConfig.analysisTimeout = 1;
+    ticsConfig.installTics = true;
+
+    const response = await runTicsAnalyzer('/path/to');
+
+    expect(response.timeout).toEqual({ phase: 'install', minutes: 1 });
+    expect(processHelper.runProcess).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should record the exit code of TiCS if it fails', async () => {
+    (processHelper.runProcess as any).mockResolvedValueOnce(3);
+
+    const response = await runTicsAnalyzer('/path/to');
+
+    expect(response.completed).toEqual(false);
+    expect(response.statusCode).toEqual(3);
   });
 });
@@ -2,7 +2,16 @@ import { githubConfig, ticsConfig } from '../../src/configuration';
 import { Analysis } from '../../src/helper/interfaces';
 import Logger from '../../src/helper/logger';
 import fetch from 'node-fetch';
-import { cliSummary, getInstallTicsApiUrl, getItemFromUrl, getProjectName, getTicsWebBaseUrlFromUrl, httpRequest } from '../../src/tics/api_helper';
+import {
+  cliSummary,
+  getInstallTicsApiUrl,
+  getItemFromUrl,
+  getProjectName,
+  getTicsWebBaseUrlFromUrl,
+  httpRequest,
+  qualityGateCliSummary
+} from '../../src/tics/api_helper';
+import { TicsApiError, TicsAuthError, TicsBadRequestError, TicsNotFoundError, TicsRedirectError, TicsServerError } from '../../src/tics/errors';
 
 describe('httpRequest', () => {
   test('Should return response on status 200', async () => {
@@ -16,76 +25,183 @@ describe('httpRequest', () => {
     expect(exit).toHaveBeenCalledTimes(0);
   });
 
-  test('Should return undefined response and call exit on status 302', async () => {
+  test('Should throw a redirect error on status 302', async () => {
     ticsConfig.ticsAuthToken = 'authToken'; // test setting TiCS Auth Token at least once
     const resJson = jest.fn(() => Promise.resolve({ data: 'body' }));
     (fetch as any).mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 302, json: resJson }));
-    const exit = jest.spyOn(Logger.Instance, 'exit');
 
-    const response = await httpRequest('url');
-    const calledWith =
-      'HTTP request failed with status 302. Please check if the given ticsConfiguration is correct (possibly http instead of https).';
+    const error = await httpRequest('url').catch(error => error);
 
-    expect(response).toEqual(undefined);
-    expect(exit).toHaveBeenCalledTimes(1);
-    expect(exit).toHaveBeenCalledWith(calledWith);
+    expect(error).toBeInstanceOf(TicsRedirectError);
+    expect(error.message).toEqual(
+      'HTTP request failed with status 302. Please check if the given ticsConfiguration is correct (possibly http instead of https).'
+    );
+    expect(error.status).toEqual(302);
+    expect(error.url).toEqual('url');
   });
 
-  test('Should return undefined response and call exit on status 400', async () => {
+  test('Should throw a bad request error with the alert messages on status 400', async () => {
     const resJson = jest.fn(() => Promise.resolve({ data: 'body', alertMessages: [{ header: 'header' }] }));
-
     (fetch as any).mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 400, json: resJson }));
-    const exit = jest.spyOn(Logger.Instance, 'exit');
 
-    const response = await httpRequest('url');
-    const calledWith = 'HTTP request failed with status 400. header';
+    const error = await httpRequest('url').catch(error => error);
 
-    expect(response).toEqual(undefined);
-    expect(exit).toHaveBeenCalledTimes(1);
-    expect(exit).toHaveBeenCalledWith(calledWith);
+    expect(error).toBeInstanceOf(TicsBadRequestError);
+    expect(error.message).toEqual('HTTP request failed with status 400. header');
+    expect(error.alertMessages).toEqual(['header']);
   });
 
-  test('Should return undefined response and call exit on status 401', async () => {
+  test('Should throw an auth error on status 401', async () => {
     const resJson = jest.fn(() => Promise.resolve({ data: 'body', alertMessages: [{ header: 'header' }] }));
-
     (fetch as any).mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 401, json: resJson }));
-    const exit = jest.spyOn(Logger.Instance, 'exit');
 
-    const response = await httpRequest('url');
-    const calledWith =
-      'HTTP request failed with status 401. Please provide a valid TICSAUTHTOKEN in your configuration. Check <url>/Administration.html#page=authToken';
+    const error = await httpRequest('url').catch(error => error);
 
-    expect(response).toEqual(undefined);
-    expect(exit).toHaveBeenCalledTimes(1);
-    expect(exit).toHaveBeenCalledWith(calledWith);
+    expect(error).toBeInstanceOf(TicsAuthError);
+    expect(error.message).toEqual(
+      'HTTP request failed with status 401. Please provide a valid TICSAUTHTOKEN in your configuration. Check <url>/Administration.html#page=authToken'
+    );
   });
 
-  test('Should return undefined response and call exit on status 404', async () => {
-    const resJson = jest.fn(() => Promise.resolve({ data: 'body', alertMessages: [{ header: 'header' }] }));
-
+  test('Should throw a not found error on status 404', async () => {
+    const resJson = jest.fn(() => Promise.reject(new Error('invalid json')));
     (fetch as any).mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 404, json: resJson }));
-    const exit = jest.spyOn(Logger.Instance, 'exit');
 
-    const response = await httpRequest('url');
-    const calledWith = 'HTTP request failed with status 404. Please check if the given ticsConfiguration is correct.';
+    const error = await httpRequest('url').catch(error => error);
 
-    expect(response).toEqual(undefined);
-    expect(exit).toHaveBeenCalledTimes(1);
-    expect(exit).toHaveBeenCalledWith(calledWith);
+    expect(error).toBeInstanceOf(TicsNotFoundError);
+    expect(error.message).toEqual('HTTP request failed with status 404. Please check if the given ticsConfiguration is correct.');
+    expect(error.alertMessages).toEqual([]);
   });
 
-  test('Should return undefined response and call exit on status null', async () => {
-    const resJson = jest.fn(() => Promise.resolve({ data: 'body', alertMessages: [{ header: 'header' }] }));
+  test('Should throw a server error on status 503', async () => {
+    const resJson = jest.fn(() => Promise.resolve({}));
+    (fetch as any).mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 503, json: resJson }));
 
+    const error = await httpRequest('url').catch(error => error);
+
+    expect(error).toBeInstanceOf(TicsServerError);
+    expect(error.name).toEqual('TicsServerError');
+  });
+
+  test('Should throw an api error on status null', async () => {
+    const resJson = jest.fn(() => Promise.resolve({ data: 'body', alertMessages: [{ header: 'header' }] }));
     (fetch as any).mockImplementationOnce((): Promise<any> => Promise.resolve({ status: null, json: resJson }));
     const exit = jest.spyOn(Logger.Instance, 'exit');
 
+    const error = await httpRequest('url').catch(error => error);
+
+    expect(error).toBeInstanceOf(TicsApiError);
+    expect(error.message).toEqual('HTTP request failed with status null. Please check if your configuration is correct.');
+    expect(exit).toHaveBeenCalledTimes(0);
+  });
+});
+
+describe('httpRequest retries', () => {
+  let setTimeoutSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    ticsConfig.retryCount = 3;
+    setTimeoutSpy = jest.spyOn(global, 'setTimeout').mockImplementation((callback: any) => {
+      callback();
+      return {} as any;
+    });
+  });
+
+  afterEach(() => {
+    ticsConfig.retryCount = 0;
+    setTimeoutSpy.mockRestore();
+  });
+
+  const headers = (retryAfter: string | null = null) => ({ get: () => retryAfter });
+
+  test('Should retry on 5xx and 429 responses until the request succeeds', async () => {
+    const resJson = jest.fn(() => Promise.resolve({ data: 'body' }));
+    (fetch as any)
+      .mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 502, headers: headers() }))
+      .mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 429, headers: headers() }))
+      .mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 200, json: resJson }));
+    const debug = jest.spyOn(Logger.Instance, 'debug');
+
     const response = await httpRequest('url');
-    const calledWith = 'HTTP request failed with status null. Please check if your configuration is correct.';
 
-    expect(response).toEqual(undefined);
-    expect(exit).toHaveBeenCalledTimes(1);
-    expect(exit).toHaveBeenCalledWith(calledWith);
+    expect(response.data).toEqual('body');
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(debug).toHaveBeenCalledWith('GET url (attempt 1/4)');
+    expect(debug).toHaveBeenCalledWith('GET url (attempt 3/4)');
+  });
+
+  test('Should retry on network errors until the request succeeds', async () => {
+    const resJson = jest.fn(() => Promise.resolve({ data: 'body' }));
+    (fetch as any)
+      .mockImplementationOnce((): Promise<any> => Promise.reject(new Error('ECONNRESET')))
+      .mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 200, json: resJson }));
+    const debug = jest.spyOn(Logger.Instance, 'debug');
+
+    const response = await httpRequest('url');
+
+    expect(response.data).toEqual('body');
+    expect(debug).toHaveBeenCalledWith(expect.stringContaining('Request failed: ECONNRESET, retrying in'));
+  });
+
+  test('Should throw the network error after the last attempt', async () => {
+    (fetch as any).mockImplementation((): Promise<any> => Promise.reject(new Error('ECONNRESET')));
+
+    await expect(httpRequest('url')).rejects.toThrow('ECONNRESET');
+    expect(fetch).toHaveBeenCalledTimes(4);
+    (fetch as any).mockReset();
+  });
+
+  test('Should throw a server error with the last response after the last attempt', async () => {
+    (fetch as any).mockImplementation((): Promise<any> => Promise.resolve({ status: 503, headers: headers(), json: () => Promise.resolve({}) }));
+
+    await expect(httpRequest('url')).rejects.toThrow(TicsServerError);
+    expect(fetch).toHaveBeenCalledTimes(4);
+    (fetch as any).mockReset();
+  });
+
+  test('Should not retry on 4xx responses other than 429', async () => {
+    (fetch as any).mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 404, headers: headers(), json: () => Promise.resolve({}) }));
+
+    await expect(httpRequest('url')).rejects.toThrow(TicsNotFoundError);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(setTimeoutSpy).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should back off exponentially with jitter', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    (fetch as any).mockImplementation((): Promise<any> => Promise.resolve({ status: 500, headers: headers(), json: () => Promise.resolve({}) }));
+
+    await expect(httpRequest('url')).rejects.toThrow(TicsServerError);
+
+    expect(setTimeoutSpy.mock.calls.map(call => call[1])).toEqual([1000, 2000, 4000]);
+    (fetch as any).mockReset();
+    (Math.random as any).mockRestore();
+  });
+
+  test('Should honor Retry-After in seconds', async () => {
+    const resJson = jest.fn(() => Promise.resolve({ data: 'body' }));
+    (fetch as any)
+      .mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 503, headers: headers('7') }))
+      .mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 200, json: resJson }));
+
+    await httpRequest('url');
+
+    expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 7000);
+  });
+
+  test('Should honor Retry-After as an HTTP date', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('Wed, 21 Oct 2015 07:28:00 GMT'));
+    const resJson = jest.fn(() => Promise.resolve({ data: 'body' }));
+    (fetch as any)
+      .mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 429, headers: headers('Wed, 21 Oct 2015 07:28:30 GMT') }))
+      .mockImplementationOnce((): Promise<any> => Promise.resolve({ status: 200, json: resJson }));
+
+    await httpRequest('url');
+
+    expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 30000);
+    (Date.now as any).mockRestore();
   });
 });
 
@@ -99,8 +215,13 @@ describe('cliSummary', () => {
     const analysis: Analysis = {
       completed: false,
       statusCode: -1,
-      errorList: ['error', 'error', 'warning'],
-      warningList: ['warning', 'warning']
+      diagnostics: [
+        { severity: 'error', message: 'error' },
+        { severity: 'error', message: 'error' },
+        { severity: 'error', message: 'warning' },
+        { severity: 'warning', message: 'warning' },
+        { severity: 'warning', message: 'warning' }
+      ]
     };
     cliSummary(analysis);
 
@@ -117,14 +238,73 @@ describe('cliSummary', () => {
     const analysis: Analysis = {
       completed: false,
       statusCode: -1,
-      errorList: ['error', 'error', 'warning'],
-      warningList: ['warning', 'warning']
+      diagnostics: [
+        { severity: 'error', message: 'error' },
+        { severity: 'error', message: 'error' },
+        { severity: 'error', message: 'warning' },
+        { severity: 'warning', message: 'warning' },
+        { severity: 'warning', message: 'warning' }
+      ]
     };
     cliSummary(analysis);
 
     expect(error).toHaveBeenCalledTimes(3);
     expect(warning).toHaveBeenCalledTimes(0);
   });
+
+  test('Should group errors by their code, cliSummary.', async () => {
+    const error = jest.spyOn(Logger.Instance, 'error');
+
+    const analysis: Analysis = {
+      completed: false,
+      statusCode: -1,
+      diagnostics: [
+        { severity: 'error', code: 666, message: 'Error' },
+        { severity: 'error', code: 666, message: 'Error' },
+        { severity: 'error', code: 777, message: 'Other error', file: 'main.c', line: 1 },
+        { severity: 'error', code: 777, message: 'Other error', file: 'main.c', line: 2 }
+      ]
+    };
+    cliSummary(analysis);
+
+    expect(error).toHaveBeenCalledTimes(2);
+    expect(error).toHaveBeenCalledWith('[ERROR 666] Error (2 occurrences)');
+    expect(error).toHaveBeenCalledWith('[ERROR 777] 2 occurrences:\n  main.c(1): Other error\n  main.c(2): Other error');
+  });
+});
+
+describe('qualityGateCliSummary', () => {
+  test('Should log the quality gate message and all conditions that are not skipped', () => {
+    const header = jest.spyOn(Logger.Instance, 'header');
+    const info = jest.spyOn(Logger.Instance, 'info');
+
+    qualityGateCliSummary({
+      passed: false,
+      message: 'Project failed 1 out of 2 quality gates',
+      url: 'url',
+      gates: [
+        {
+          name: 'JavaScript',
+          passed: false,
+          conditions: [
+            { passed: false, message: 'failed condition' },
+            { passed: true, skipped: true, message: 'skipped condition' }
+          ]
+        },
+        {
+          name: 'Python',
+          passed: true,
+          conditions: [{ passed: true, message: 'passed condition' }]
+        }
+      ],
+      annotationsApiV1Links: []
+    });
+
+    expect(header).toHaveBeenCalledWith('Project failed 1 out of 2 quality gates');
+    expect(info).toHaveBeenCalledTimes(2);
+    expect(info).toHaveBeenCalledWith('JavaScript: Failed - failed condition');
+    expect(info).toHaveBeenCalledWith('Python: Passed - passed condition');
+  });
 });
 
 describe('getInstallTicsApiUrl', () => {
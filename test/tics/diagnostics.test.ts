@@ -0,0 +1,127 @@
+import { createLineBuffer, formatDiagnostic, formatDiagnosticGroup, groupDiagnostics, parseDiagnostic } from '../../src/tics/diagnostics';
+import { Diagnostic } from '../../src/helper/interfaces';
+
+describe('createLineBuffer', () => {
+  test('Should only pass on complete lines', () => {
+    const lines: string[] = [];
+    const buffer = createLineBuffer(line => lines.push(line));
+
+    buffer.write('first li');
+    expect(lines).toEqual([]);
+
+    buffer.write('ne\r\nsecond line\nthi');
+    expect(lines).toEqual(['first line', 'second line']);
+  });
+
+  test('Should pass on the incomplete line on flush', () => {
+    const lines: string[] = [];
+    const buffer = createLineBuffer(line => lines.push(line));
+
+    buffer.write('line\nlast');
+    buffer.flush();
+    buffer.flush();
+
+    expect(lines).toEqual(['line', 'last']);
+  });
+});
+
+describe('parseDiagnostic', () => {
+  test('Should return undefined for a line without error or warning', () => {
+    expect(parseDiagnostic('[INFO 1234] Analyzing files')).toBeUndefined();
+  });
+
+  test('Should parse an error with code', () => {
+    expect(parseDiagnostic('[ERROR 666] Something went wrong')).toEqual({ severity: 'error', code: 666, message: 'Something went wrong' });
+  });
+
+  test('Should parse a warning preceded by a timestamp', () => {
+    expect(parseDiagnostic('12:00:01 [WARNING 5057] No files to analyze ')).toEqual({
+      severity: 'warning',
+      code: 5057,
+      message: 'No files to analyze'
+    });
+  });
+
+  test('Should parse an error without code', () => {
+    expect(parseDiagnostic('[ERROR] Something went wrong')).toEqual({ severity: 'error', message: 'Something went wrong' });
+  });
+
+  test('Should parse the file and line of a diagnostic', () => {
+    expect(parseDiagnostic('[WARNING 4000] src/main.c(12): Could not parse')).toEqual({
+      severity: 'warning',
+      code: 4000,
+      message: 'Could not parse',
+      file: 'src/main.c',
+      line: 12
+    });
+    expect(parseDiagnostic('[WARNING 4000] C:\\src\\main.c:12:3: Could not parse')).toEqual({
+      severity: 'warning',
+      code: 4000,
+      message: 'Could not parse',
+      file: 'C:\\src\\main.c',
+      line: 12
+    });
+  });
+
+  test('Should not parse a location from a sentence', () => {
+    expect(parseDiagnostic('[ERROR 666] Could not connect to host (3): timeout')?.file).toBeUndefined();
+  });
+});
+
+describe('groupDiagnostics', () => {
+  const diagnostics: Diagnostic[] = [
+    { severity: 'error', code: 666, message: 'Error' },
+    { severity: 'warning', code: 5057, message: 'Warning' },
+    { severity: 'error', code: 777, message: 'Other error', file: 'main.c', line: 1 },
+    { severity: 'error', code: 666, message: 'Error' },
+    { severity: 'error', message: 'Action error' },
+    { severity: 'error', message: 'Action error' },
+    { severity: 'error', code: 777, message: 'Other error', file: 'main.c', line: 2 }
+  ];
+
+  test('Should group diagnostics of a severity by code and count them', () => {
+    const groups = groupDiagnostics(diagnostics, 'error');
+
+    expect(groups).toEqual([
+      { severity: 'error', code: 666, count: 2, diagnostics: [diagnostics[0]] },
+      { severity: 'error', code: 777, count: 2, diagnostics: [diagnostics[2], diagnostics[6]] },
+      { severity: 'error', code: undefined, count: 1, diagnostics: [diagnostics[4]] },
+      { severity: 'error', code: undefined, count: 1, diagnostics: [diagnostics[5]] }
+    ]);
+  });
+
+  test('Should only group diagnostics of the given severity', () => {
+    expect(groupDiagnostics(diagnostics, 'warning')).toEqual([{ severity: 'warning', code: 5057, count: 1, diagnostics: [diagnostics[1]] }]);
+  });
+});
+
+describe('formatDiagnostic', () => {
+  test('Should format a diagnostic like TiCS', () => {
+    expect(formatDiagnostic({ severity: 'warning', code: 5057, message: 'Warning' })).toEqual('[WARNING 5057] Warning');
+    expect(formatDiagnostic({ severity: 'error', code: 666, message: 'Error', file: 'main.c', line: 1 })).toEqual('[ERROR 666] main.c(1): Error');
+    expect(formatDiagnostic({ severity: 'error', message: 'Error' })).toEqual('Error');
+  });
+});
+
+describe('formatDiagnosticGroup', () => {
+  test('Should format a group with a single distinct diagnostic on one line', () => {
+    expect(
+      formatDiagnosticGroup({ severity: 'error', code: 666, count: 1, diagnostics: [{ severity: 'error', code: 666, message: 'Error' }] })
+    ).toEqual(['[ERROR 666] Error', []]);
+    expect(
+      formatDiagnosticGroup({ severity: 'error', code: 666, count: 3, diagnostics: [{ severity: 'error', code: 666, message: 'Error' }] })
+    ).toEqual(['[ERROR 666] Error (3 occurrences)', []]);
+  });
+
+  test('Should list the distinct diagnostics of a group', () => {
+    const group = groupDiagnostics(
+      [
+        { severity: 'error', code: 777, message: 'Error', file: 'main.c', line: 1 },
+        { severity: 'error', code: 777, message: 'Error', file: 'main.c', line: 2 }
+      ],
+      'error'
+    )[0];
+
+    expect(formatDiagnosticGroup(group)).toEqual(['[ERROR 777] 2 occurrences:', ['main.c(1): Error', 'main.c(2): Error']]);
+  });
+});
@@ -1,8 +1,28 @@
 import { ticsConfig } from '../../src/configuration';
 import Logger from '../../src/helper/logger';
+import { isTicsApiError, TicsAuthError } from '../../src/tics/errors';
 import * as api_helper from '../../src/tics/api_helper';
 import { getAnalyzedFiles, getAnnotations, getQualityGate, getViewerVersion } from '../../src/tics/fetcher';
 
+const qualityGate = {
+  passed: true,
+  message: 'Project passed 1 out of 1 quality gates',
+  url: 'url',
+  gates: [{ name: 'gate', passed: true, conditions: [{ passed: true, message: 'condition' }] }],
+  annotationsApiV1Links: [{ url: 'url' }]
+};
+
+const annotation = {
+  fullPath: 'HIE://project/main/test.js',
+  line: 1,
+  level: 1,
+  category: 'category',
+  rule: 'rule',
+  msg: 'msg',
+  type: 'CS',
+  count: 1
+};
+
 describe('getAnalyzedFiles', () => {
   test('Should return analyzed file from viewer', async () => {
     jest.spyOn(api_helper, 'getItemFromUrl').mockReturnValueOnce('clientData');
@@ -17,6 +37,18 @@ describe('getAnalyzedFiles', () => {
     expect(response).toEqual(['file.js']);
   });
 
+  test('Should filter the analyzed files on the branch if branchName is set', async () => {
+    jest.spyOn(api_helper, 'getItemFromUrl').mockReturnValueOnce('clientData');
+    jest.spyOn(api_helper, 'getProjectName').mockReturnValueOnce('projectName');
+    const spy = jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ data: [] }));
+
+    ticsConfig.branchName = 'main';
+    await getAnalyzedFiles('url');
+    ticsConfig.branchName = '';
+
+    expect(decodeURIComponent(spy.mock.calls[0][0])).toContain('filters=ClientData(clientData),Project(projectName),Branch(main),Window(-1),File()');
+  });
+
   test('Should return analyzed files from viewer', async () => {
     jest.spyOn(api_helper, 'getItemFromUrl').mockReturnValueOnce('clientData');
     jest.spyOn(api_helper, 'getProjectName').mockReturnValueOnce('projectName');
@@ -32,16 +64,12 @@ describe('getAnalyzedFiles', () => {
     expect(response).toEqual(['file.js', 'files.js']);
   });
 
-  test('Should throw error on faulty httpRequest in getAnalyzedFiles', async () => {
+  test('Should throw error with context on faulty httpRequest in getAnalyzedFiles', async () => {
     jest.spyOn(api_helper, 'getItemFromUrl').mockReturnValueOnce('clientData');
     jest.spyOn(api_helper, 'getProjectName').mockReturnValueOnce('projectName');
-    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.reject(new Error()));
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.reject(new Error('error')));
 
-    const spy = jest.spyOn(Logger.Instance, 'exit');
-
-    await getAnalyzedFiles('url');
-
-    expect(spy).toHaveBeenCalledTimes(1);
+    await expect(getAnalyzedFiles('url')).rejects.toThrow('There was an error retrieving the analyzed files: error');
   });
 });
 
@@ -49,25 +77,52 @@ describe('getQualityGate', () => {
   test('Should return quality gates from viewer', async () => {
     jest.spyOn(api_helper, 'getItemFromUrl').mockReturnValueOnce('clientData');
     jest.spyOn(api_helper, 'getProjectName').mockReturnValueOnce('projectName');
-    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ data: 'data' }));
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve(qualityGate));
 
     ticsConfig.branchName = 'main';
 
     const response = await getQualityGate('url');
 
-    expect(response).toEqual({ data: 'data' });
+    expect(response).toEqual(qualityGate);
+  });
+
+  test('Should request the project quality gate without client data when no url is given', async () => {
+    jest.spyOn(api_helper, 'getProjectName').mockReturnValueOnce('projectName');
+    const spy = jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve(qualityGate));
+
+    ticsConfig.branchName = 'main';
+
+    const response = await getQualityGate();
+
+    expect(response).toEqual(qualityGate);
+    expect(spy).toHaveBeenCalledWith(expect.not.stringContaining('cdt='));
   });
 
-  test('Should throw error on faulty httpRequest in getQualityGate', async () => {
+  test('Should throw error with context on faulty httpRequest in getQualityGate', async () => {
     jest.spyOn(api_helper, 'getItemFromUrl').mockReturnValueOnce('clientData');
     jest.spyOn(api_helper, 'getProjectName').mockReturnValueOnce('projectName');
-    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.reject(new Error()));
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.reject(new Error('error')));
+
+    await expect(getQualityGate('url')).rejects.toThrow('There was an error retrieving the quality gates: error');
+  });
 
-    const spy = jest.spyOn(Logger.Instance, 'exit');
+  test('Should throw error naming the field on an unexpected response in getQualityGate', async () => {
+    const response = { ...qualityGate, gates: [{ name: 'gate', passed: true, conditions: [{ message: 'condition' }] }] };
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve(response));
 
-    await getQualityGate('url');
+    await expect(getQualityGate()).rejects.toThrow(
+      'There was an error retrieving the quality gates: Unexpected viewer response: QualityGateStatus.gates[0].conditions[0].passed should be a boolean, found undefined.'
+    );
+  });
+
+  test('Should keep the error of the viewer as cause', async () => {
+    const apiError = new TicsAuthError('HTTP request failed with status 401.', 401, 'url');
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.reject(apiError));
 
-    expect(spy).toHaveBeenCalledTimes(1);
+    const error = await getQualityGate().catch(error => error);
+
+    expect(error.cause).toBe(apiError);
+    expect(isTicsApiError(error, TicsAuthError)).toBeTruthy();
   });
 });
 
@@ -75,25 +130,21 @@ describe('getAnnotations', () => {
   test('Should return analyzed files from viewer', async () => {
     jest.spyOn(api_helper, 'getItemFromUrl').mockReturnValueOnce('clientData');
     jest.spyOn(api_helper, 'getProjectName').mockReturnValueOnce('projectName');
-    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ data: [{ annotation: 'anno_1' }] }));
-    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ data: [{ annotation: 'anno_2' }] }));
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ data: [annotation] }));
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.resolve({ data: [{ ...annotation, line: 2 }] }));
 
     const response = await getAnnotations([{ url: 'url' }, { url: 'url' }]);
 
     expect(response).toEqual([
-      { annotation: 'anno_1', gateId: 0 },
-      { annotation: 'anno_2', gateId: 1 }
+      { ...annotation, gateId: 0 },
+      { ...annotation, line: 2, gateId: 1 }
     ]);
   });
 
-  test('Should throw error on faulty httpRequest in getAnnotations', async () => {
-    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.reject(new Error()));
-
-    const spy = jest.spyOn(Logger.Instance, 'exit');
+  test('Should throw error with context on faulty httpRequest in getAnnotations', async () => {
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.reject(new Error('error')));
 
-    await getAnnotations([{ url: 'url' }]);
-
-    expect(spy).toHaveBeenCalledTimes(1);
+    await expect(getAnnotations([{ url: 'url' }])).rejects.toThrow('An error occured when trying to retrieve annotations: error');
   });
 });
 
@@ -106,13 +157,9 @@ describe('getViewerVersion', () => {
     expect(response.version).toEqual('2022.0.0');
   });
 
-  test('Should throw error on faulty httpRequest in getViewerVersion', async () => {
-    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.reject(new Error()));
-
-    const spy = jest.spyOn(Logger.Instance, 'exit');
-
-    await getViewerVersion();
+  test('Should throw error with context on faulty httpRequest in getViewerVersion', async () => {
+    jest.spyOn(api_helper, 'httpRequest').mockImplementationOnce((): Promise<any> => Promise.reject(new Error('error')));
 
-    expect(spy).toHaveBeenCalledTimes(1);
+    await expect(getViewerVersion()).rejects.toThrow('There was an error retrieving the Viewer version: error');
   });
 });
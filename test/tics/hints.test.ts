@@ -0,0 +1,143 @@
+import { existsSync, readFileSync } from 'fs';
+import { ticsConfig } from '../../src/configuration';
+import Logger from '../../src/helper/logger';
+import { findHint, formatHint, loadHints } from '../../src/tics/hints';
+
+describe('loadHints', () => {
+  afterEach(() => {
+    ticsConfig.hintsFile = '';
+    loadHints();
+  });
+
+  test('Should only use the built-in hints without hintsFile', () => {
+    loadHints();
+
+    expect(existsSync).toHaveBeenCalledTimes(0);
+    expect(findHint({ severity: 'warning', code: 5057, message: 'No files' })).toBeDefined();
+  });
+
+  test('Should ignore a hintsFile that does not exist', () => {
+    (existsSync as any).mockReturnValueOnce(false);
+    const spyWarning = jest.spyOn(Logger.Instance, 'warning');
+    ticsConfig.hintsFile = '.tics-hints.json';
+
+    loadHints();
+
+    expect(readFileSync).toHaveBeenCalledTimes(0);
+    expect(spyWarning).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should add the hints of the hintsFile and let them replace built-in hints', () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    (readFileSync as any).mockReturnValueOnce(
+      JSON.stringify([
+        { code: 1234, severity: 'error', explanation: 'Site specific', link: 'https://wiki.example.com' },
+        { code: 5057, explanation: 'Replaced' }
+      ])
+    );
+    ticsConfig.hintsFile = '.tics-hints.json';
+
+    loadHints();
+
+    expect(findHint({ severity: 'error', code: 1234, message: 'Error' })).toEqual({
+      code: 1234,
+      severity: 'error',
+      explanation: 'Site specific',
+      link: 'https://wiki.example.com'
+    });
+    expect(findHint({ severity: 'warning', code: 1234, message: 'Warning' })).toBeUndefined();
+    expect(findHint({ severity: 'warning', code: 5057, message: 'No files' })?.explanation).toEqual('Replaced');
+  });
+
+  test('Should warn and keep the built-in hints if the hintsFile is invalid', () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    (readFileSync as any).mockReturnValueOnce(JSON.stringify([{ code: '1234', explanation: 'Invalid' }]));
+    const spyWarning = jest.spyOn(Logger.Instance, 'warning');
+    ticsConfig.hintsFile = '.tics-hints.json';
+
+    loadHints();
+
+    expect(spyWarning).toHaveBeenCalledWith('Could not load the hints of .tics-hints.json: hint 0 should have a numeric code.');
+    expect(findHint({ severity: 'warning', code: 5057, message: 'No files' })).toBeDefined();
+  });
+
+  test('Should add hints with a pattern instead of a code', () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    (readFileSync as any).mockReturnValueOnce(JSON.stringify([{ pattern: 'disk (is )?full', explanation: 'Clean the runner.' }]));
+    ticsConfig.hintsFile = '.tics-hints.json';
+
+    loadHints();
+
+    expect(findHint({ severity: 'warning', code: 1, message: 'The disk is full' })?.explanation).toEqual('Clean the runner.');
+    expect(findHint({ severity: 'error', message: 'Disk full' })?.explanation).toEqual('Clean the runner.');
+  });
+
+  test.each([
+    [{ explanation: 'No code' }, 'hint 0 should have a code or a pattern.'],
+    [{ pattern: '(unclosed', explanation: 'Invalid' }, 'the pattern of hint 0 should be a regular expression.']
+  ])('Should warn if a hint has no valid code or pattern (%j)', (hint, message) => {
+    (existsSync as any).mockReturnValueOnce(true);
+    (readFileSync as any).mockReturnValueOnce(JSON.stringify([hint]));
+    const spyWarning = jest.spyOn(Logger.Instance, 'warning');
+    ticsConfig.hintsFile = '.tics-hints.json';
+
+    loadHints();
+
+    expect(spyWarning).toHaveBeenCalledWith(`Could not load the hints of .tics-hints.json: ${message}`);
+  });
+
+  test('Should warn if the hintsFile is not a list', () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    (readFileSync as any).mockReturnValueOnce('{}');
+    const spyWarning = jest.spyOn(Logger.Instance, 'warning');
+    ticsConfig.hintsFile = '.tics-hints.json';
+
+    loadHints();
+
+    expect(spyWarning).toHaveBeenCalledWith('Could not load the hints of .tics-hints.json: the file should contain a list of hints.');
+  });
+});
+
+describe('findHint', () => {
+  test('Should not find a hint for diagnostics without code', () => {
+    expect(findHint({ severity: 'error', message: 'Error' })).toBeUndefined();
+  });
+
+  test('Should find a hint by code and severity', () => {
+    expect(findHint({ severity: 'warning', code: 5057, message: 'No files' })?.code).toEqual(5057);
+    expect(findHint({ severity: 'error', code: 5057, message: 'Error' })).toBeUndefined();
+  });
+
+  test.each([
+    ['Could not obtain a license: no valid license found', 'license'],
+    ['Authentication failed for user runner', 'ticsAuthToken'],
+    ["Project 'myproject' not found", 'projectName'],
+    ['Configuration myconfiguration does not exist', 'ticsConfiguration'],
+    ['unable to find valid certification path: PKIX path building failed', 'caBundle'],
+    ['Could not connect to host (3): timeout', 'self-hosted runner']
+  ])('Should find a built-in hint for the error "%s"', (message, explanation) => {
+    expect(findHint({ severity: 'error', code: 1234, message: message })?.explanation).toContain(explanation);
+    expect(findHint({ severity: 'warning', code: 1234, message: message })).toBeUndefined();
+  });
+
+  test('Should find a hint by pattern for any of the diagnostics of a group', () => {
+    const group = {
+      severity: 'error' as const,
+      code: 1234,
+      count: 2,
+      diagnostics: [
+        { severity: 'error' as const, code: 1234, message: 'Something failed' },
+        { severity: 'error' as const, code: 1234, message: 'The license server cannot be reached' }
+      ]
+    };
+
+    expect(findHint(group)?.explanation).toContain('license');
+  });
+});
+
+describe('formatHint', () => {
+  test('Should format a hint with and without link', () => {
+    expect(formatHint({ code: 1, explanation: 'Explanation.', link: 'https://link' })).toEqual('Hint: Explanation. See https://link');
+    expect(formatHint({ code: 1, explanation: 'Explanation.' })).toEqual('Hint: Explanation.');
+  });
+});
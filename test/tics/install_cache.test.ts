@@ -0,0 +1,153 @@
+import { cpSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import { githubConfig } from '../../src/configuration';
+import Logger from '../../src/helper/logger';
+import * as fetcher from '../../src/tics/fetcher';
+import { getInstallationCacheDirectory, restoreInstallation, saveInstallation } from '../../src/tics/install_cache';
+
+describe('getInstallationCacheDirectory', () => {
+  const environment = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...environment };
+  });
+
+  test('Should not cache without tool cache', async () => {
+    delete process.env.RUNNER_TOOL_CACHE;
+    const spy = jest.spyOn(fetcher, 'getViewerVersion');
+
+    expect(await getInstallationCacheDirectory()).toBeUndefined();
+    expect(spy).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should not cache on GitHub-hosted runners', async () => {
+    process.env.RUNNER_TOOL_CACHE = '/opt/hostedtoolcache';
+    process.env.RUNNER_ENVIRONMENT = 'github-hosted';
+
+    expect(await getInstallationCacheDirectory()).toBeUndefined();
+  });
+
+  test('Should not cache if the viewer version cannot be retrieved', async () => {
+    jest.spyOn(fetcher, 'getViewerVersion').mockRejectedValueOnce(Error('Not found'));
+    process.env.RUNNER_TOOL_CACHE = '/toolcache';
+    process.env.RUNNER_ENVIRONMENT = 'self-hosted';
+
+    expect(await getInstallationCacheDirectory()).toBeUndefined();
+  });
+
+  test('Should key the directory on viewer version, OS and configuration', async () => {
+    jest.spyOn(fetcher, 'getViewerVersion').mockResolvedValue({ version: '2023.1.0' });
+    process.env.RUNNER_TOOL_CACHE = '/toolcache';
+    process.env.RUNNER_ENVIRONMENT = 'self-hosted';
+    githubConfig.runnerOS = 'Linux';
+
+    const directory = await getInstallationCacheDirectory();
+
+    expect(directory).toMatch(new RegExp(`^/toolcache/TICS/2023\\.1\\.0/linux-${process.arch}-[0-9a-f]{16}$`));
+    githubConfig.runnerOS = 'Windows';
+    expect(await getInstallationCacheDirectory()).not.toEqual(directory);
+  });
+});
+
+describe('restoreInstallation', () => {
+  const environment = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...environment };
+  });
+
+  test('Should not restore an installation that is not cached completely', () => {
+    (existsSync as any).mockReturnValueOnce(false);
+
+    expect(restoreInstallation('/toolcache/TICS/2023.1.0/linux')).toBeUndefined();
+    expect(existsSync).toHaveBeenCalledWith('/toolcache/TICS/2023.1.0/linux.complete');
+  });
+
+  test('Should not restore an installation without environment', () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    (readFileSync as any).mockImplementationOnce(() => {
+      throw Error('ENOENT');
+    });
+
+    expect(restoreInstallation('/toolcache/TICS/2023.1.0/linux')).toBeUndefined();
+  });
+
+  test('Should resolve the cached environment against the cache directory and prepend it to PATH', () => {
+    (existsSync as any).mockReturnValueOnce(true);
+    (readFileSync as any).mockReturnValueOnce(
+      JSON.stringify({ path: ['${TICS_INSTALLATION}/bin'], variables: { TICS: '${TICS_INSTALLATION}/cfg', TICSPROJECT: 'project' } })
+    );
+    process.env.PATH = '/usr/bin';
+
+    expect(restoreInstallation('/toolcache/TICS/2023.1.0/linux')).toEqual({
+      PATH: '/toolcache/TICS/2023.1.0/linux/bin:/usr/bin',
+      TICS: '/toolcache/TICS/2023.1.0/linux/cfg',
+      TICSPROJECT: 'project'
+    });
+  });
+});
+
+describe('saveInstallation', () => {
+  const environment = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...environment };
+    (existsSync as any).mockReset();
+  });
+
+  test('Should copy the directory of the TICS executable and store its environment', () => {
+    (existsSync as any).mockImplementation((path: string) => path === '/opt/tics/BuildServer/TICS');
+    process.env.PATH = '/usr/bin';
+
+    saveInstallation('/toolcache/TICS/2023.1.0/linux', {
+      PATH: '/opt/tics/BuildServer:/opt/tics/Tools:/usr/bin',
+      TICS: '/opt/tics/BuildServer/cfg',
+      TICSPROJECT: 'project'
+    });
+
+    expect(cpSync).toHaveBeenCalledWith('/opt/tics/BuildServer', '/toolcache/TICS/2023.1.0/linux', { recursive: true });
+    expect(writeFileSync).toHaveBeenCalledWith(
+      '/toolcache/TICS/2023.1.0/linux/tics-environment.json',
+      JSON.stringify({ path: ['${TICS_INSTALLATION}', '/opt/tics/Tools'], variables: { TICS: '${TICS_INSTALLATION}/cfg', TICSPROJECT: 'project' } })
+    );
+    expect(writeFileSync).toHaveBeenLastCalledWith('/toolcache/TICS/2023.1.0/linux.complete', '');
+  });
+
+  test('Should not cache if the TICS executable is not on the added PATH', () => {
+    (existsSync as any).mockImplementation((path: string) => path === '/usr/bin/TICS');
+    process.env.PATH = '/usr/bin';
+
+    saveInstallation('/toolcache/TICS/2023.1.0/linux', { PATH: '/opt/tics/Tools:/usr/bin', TICS: '/opt/tics/cfg' });
+
+    expect(cpSync).toHaveBeenCalledTimes(0);
+    expect(writeFileSync).toHaveBeenCalledTimes(0);
+  });
+
+  test.each([
+    ['workspace', '/home/runner', '/toolcache'],
+    ['tool cache', '/home/runner/work', '/home/runner/toolcache']
+  ])('Should not cache if the directory of the TICS executable contains the %s', (_, workspace, toolCache) => {
+    (existsSync as any).mockImplementation((path: string) => path === '/home/runner/TICS');
+    process.env.PATH = '/usr/bin';
+    process.env.GITHUB_WORKSPACE = workspace;
+    process.env.RUNNER_TOOL_CACHE = toolCache;
+
+    saveInstallation(`${toolCache}/TICS/2023.1.0/linux`, { PATH: '/home/runner:/usr/bin' });
+
+    expect(cpSync).toHaveBeenCalledTimes(0);
+    expect(writeFileSync).toHaveBeenCalledTimes(0);
+  });
+
+  test('Should warn and not mark the cache complete if copying fails', () => {
+    (cpSync as any).mockImplementationOnce(() => {
+      throw Error('No space left on device');
+    });
+    (existsSync as any).mockImplementation((path: string) => path === '/opt/tics/bin/TICS');
+    const spyWarning = jest.spyOn(Logger.Instance, 'warning');
+    process.env.PATH = '/usr/bin';
+
+    saveInstallation('/toolcache/TICS/2023.1.0/linux', { PATH: '/opt/tics/bin:/usr/bin' });
+
+    expect(spyWarning).toHaveBeenCalledWith('Could not cache the TiCS installation: No space left on device');
+    expect(writeFileSync).toHaveBeenCalledTimes(0);
+  });
+});
@@ -0,0 +1,98 @@
+import { ticsConfig } from '../../src/configuration';
+import { Outcome } from '../../src/helper/enums';
+import { Analysis } from '../../src/helper/interfaces';
+import { evaluatePolicy, loadPolicy } from '../../src/tics/policy';
+
+const analysis: Analysis = {
+  completed: false,
+  statusCode: 3,
+  diagnostics: [
+    { severity: 'error', code: 666, message: 'Error' },
+    { severity: 'warning', code: 5062, message: 'Warning' }
+  ]
+};
+
+describe('loadPolicy', () => {
+  afterEach(() => {
+    ticsConfig.policy = '';
+  });
+
+  test('Should approve warning 5057 by default', () => {
+    loadPolicy();
+
+    expect(evaluatePolicy({ ...analysis, completed: true, diagnostics: [{ severity: 'warning', code: 5057, message: 'No files' }] })).toEqual({
+      rule: 'warning 5057 -> approve',
+      outcome: Outcome.APPROVE,
+      reason: '[WARNING 5057] No files'
+    });
+  });
+
+  test('Should accept rules separated by newlines and semicolons, with comments and different arrows', () => {
+    ticsConfig.policy = '# team policy\nwarning 5057 → approve; warning 5xxx => comment\n\nEXIT CODE 3 -> Neutral';
+
+    expect(() => loadPolicy()).not.toThrow();
+  });
+
+  test('Should throw an error on an invalid rule', () => {
+    ticsConfig.policy = 'warning 5057 -> approve\nwarning five -> comment';
+
+    expect(() => loadPolicy()).toThrow('"warning five -> comment" is not a valid rule, expected "<warning|error|exit code> <code> -> <outcome>".');
+  });
+
+  test('Should throw an error on an unknown outcome', () => {
+    ticsConfig.policy = 'exit code 3 -> pass';
+
+    expect(() => loadPolicy()).toThrow('"exit code 3 -> pass" has an unknown outcome pass. Options are approve, comment, neutral, fail.');
+  });
+});
+
+describe('evaluatePolicy', () => {
+  afterEach(() => {
+    ticsConfig.policy = '';
+  });
+
+  test('Should return undefined if no rule matches', () => {
+    ticsConfig.policy = 'warning 5057 -> approve; error 777 -> comment; exit code 4 -> neutral';
+    loadPolicy();
+
+    expect(evaluatePolicy(analysis)).toBeUndefined();
+  });
+
+  test('Should match codes with wildcards', () => {
+    ticsConfig.policy = 'warning 5057 -> approve; warning 5xxx -> comment';
+    loadPolicy();
+
+    expect(evaluatePolicy({ ...analysis, completed: true })).toEqual({
+      rule: 'warning 5xxx -> comment',
+      outcome: Outcome.COMMENT,
+      reason: '[WARNING 5062] Warning'
+    });
+  });
+
+  test('Should not match codes of a different length', () => {
+    ticsConfig.policy = 'warning 5xx -> comment';
+    loadPolicy();
+
+    expect(evaluatePolicy({ ...analysis, completed: true })).toBeUndefined();
+  });
+
+  test('Should return the first matching rule', () => {
+    ticsConfig.policy = 'exit code 3 -> neutral; error * -> fail';
+    loadPolicy();
+
+    expect(evaluatePolicy(analysis)).toEqual({ rule: 'exit code 3 -> neutral', outcome: Outcome.NEUTRAL, reason: 'TiCS exited with code 3' });
+  });
+
+  test('Should not match the exit code of a run that did not finish', () => {
+    ticsConfig.policy = 'exit code * -> neutral';
+    loadPolicy();
+
+    expect(evaluatePolicy({ ...analysis, statusCode: -1 })).toBeUndefined();
+  });
+
+  test('Should not match warnings of a run that exited with an error', () => {
+    loadPolicy();
+
+    expect(evaluatePolicy({ ...analysis, diagnostics: [{ severity: 'warning', code: 5057, message: 'No files' }] })).toBeUndefined();
+  });
+});
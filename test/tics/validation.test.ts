@@ -0,0 +1,119 @@
+import { TicsResponseError } from '../../src/tics/errors';
+import { validateAnnotations, validateMeasure, validateQualityGate, validateViewerVersion } from '../../src/tics/validation';
+
+const condition = {
+  passed: false,
+  error: false,
+  message: 'No new Coding Standard Violations for levels 1, 2, 3 with respect to first analysis',
+  details: {
+    itemTypes: ['file'],
+    dataKeys: { actualValue: { title: 'Coding Standard Violations', order: 1, itemType: 'file' } },
+    itemCount: 1,
+    itemLimit: 100,
+    items: [{ itemType: 'file', name: 'test.js', link: 'link', data: { actualValue: { formattedValue: '+1', value: 1 } } }]
+  }
+};
+
+const qualityGate = {
+  passed: false,
+  message: 'Project failed 1 out of 1 quality gates',
+  url: 'url',
+  gates: [{ name: 'Coding Standards', passed: false, conditions: [condition, { passed: true, skipped: true, message: 'skipped' }] }],
+  annotationsApiV1Links: [{ url: 'api/public/v1/Annotations' }]
+};
+
+const annotation = {
+  fullPath: 'HIE://project/main/test.js',
+  line: 1,
+  level: 1,
+  category: 'category',
+  rule: 'rule',
+  msg: 'msg',
+  type: 'CS',
+  count: 1
+};
+
+describe('validateQualityGate', () => {
+  test('Should return a valid quality gate', () => {
+    expect(validateQualityGate(qualityGate)).toBe(qualityGate);
+  });
+
+  test('Should accept a quality gate with an empty list of annotation links', () => {
+    expect(() => validateQualityGate({ ...qualityGate, annotationsApiV1Links: [] })).not.toThrow();
+  });
+
+  test('Should throw an error naming a missing field', () => {
+    const { gates, ...withoutGates } = qualityGate;
+
+    expect(() => validateQualityGate(withoutGates)).toThrow(
+      'Unexpected viewer response: QualityGateStatus.gates should be an array, found undefined.'
+    );
+  });
+
+  test('Should throw an error naming a nested field of the wrong type', () => {
+    const item = { ...condition.details.items[0], data: { actualValue: { formattedValue: 1 } } };
+    const response = {
+      ...qualityGate,
+      gates: [{ ...qualityGate.gates[0], conditions: [{ ...condition, details: { ...condition.details, items: [item] } }] }]
+    };
+
+    expect(() => validateQualityGate(response)).toThrow(
+      'Unexpected viewer response: QualityGateStatus.gates[0].conditions[0].details.items[0].data.actualValue.formattedValue should be a string, found number 1.'
+    );
+  });
+
+  test('Should throw a TicsResponseError with the field', () => {
+    let error: any;
+    try {
+      validateQualityGate(null);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(TicsResponseError);
+    expect(error.field).toEqual('QualityGateStatus');
+    expect(error.message).toEqual('Unexpected viewer response: QualityGateStatus should be an object, found null.');
+  });
+});
+
+describe('validateMeasure', () => {
+  test('Should return a valid measure', () => {
+    const measure = { data: [{ formattedValue: 'test.js', value: 'test.js' }] };
+
+    expect(validateMeasure(measure)).toBe(measure);
+  });
+
+  test('Should throw an error naming the invalid field', () => {
+    expect(() => validateMeasure({ data: [{ value: 'test.js' }] })).toThrow(
+      'Unexpected viewer response: Measure.data[0].formattedValue should be a string, found undefined.'
+    );
+  });
+});
+
+describe('validateAnnotations', () => {
+  test('Should return the annotations of a valid response', () => {
+    expect(validateAnnotations({ data: [annotation] })).toEqual([annotation]);
+  });
+
+  test('Should accept an annotation without category', () => {
+    const { category, ...withoutCategory } = annotation;
+
+    expect(validateAnnotations({ data: [withoutCategory] })).toEqual([withoutCategory]);
+  });
+
+  test('Should throw an error naming the invalid field', () => {
+    expect(() => validateAnnotations({ data: [annotation, { ...annotation, line: '1' }] })).toThrow(
+      'Unexpected viewer response: Annotations.data[1].line should be a number, found string "1".'
+    );
+  });
+});
+
+describe('validateViewerVersion', () => {
+  test('Should return a valid version', () => {
+    expect(validateViewerVersion({ version: '2022.4.0' })).toEqual({ version: '2022.4.0' });
+  });
+
+  test('Should throw an error naming the invalid field', () => {
+    expect(() => validateViewerVersion({ data: [] })).toThrow('Unexpected viewer response: Version.version should be a string, found undefined.');
+  });
+});